@@ -34,10 +34,6 @@ describe('Database Diagnostics', () => {
   });
 
   it('should provide debug utilities when debug mode is enabled', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -65,10 +61,6 @@ describe('Database Diagnostics', () => {
   });
 
   it('should throw error when accessing debug utilities without debug mode', () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -83,10 +75,6 @@ describe('Database Diagnostics', () => {
   });
 
   it('should log diagnostics', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -114,10 +102,6 @@ describe('Database Diagnostics', () => {
   });
 
   it('should inspect database', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -142,10 +126,6 @@ describe('Database Diagnostics', () => {
   });
 
   it('should inspect a specific store', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -170,10 +150,6 @@ describe('Database Diagnostics', () => {
   });
 
   it('should format diagnostics as string', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -196,10 +172,6 @@ describe('Database Diagnostics', () => {
   });
 
   it('should provide recovery utilities', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { createDB } from './index.js';
 
 describe('Database Health Check', () => {
@@ -33,10 +33,6 @@ describe('Database Health Check', () => {
   });
 
   it('should perform health check on open database', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -69,10 +65,6 @@ describe('Database Health Check', () => {
   });
 
   it('should perform health check on closed database', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -81,8 +73,13 @@ describe('Database Health Check', () => {
       },
     });
 
-    // Don't open the database
+    // Don't open the database, and keep the health check from opening it
+    vi.spyOn(indexedDB, 'open').mockImplementation(() => {
+      throw new Error('IndexedDB is blocked');
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
     const health = await db.health();
+    vi.restoreAllMocks();
 
     expect(health.connected).toBe(false);
     expect(health.status).toBe('unhealthy');
@@ -92,10 +89,6 @@ describe('Database Health Check', () => {
   });
 
   it('should skip tests when runTests is false', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -116,10 +109,6 @@ describe('Database Health Check', () => {
   });
 
   it('should skip quota check when checkQuota is false', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -139,10 +128,6 @@ describe('Database Health Check', () => {
   });
 
   it('should use custom test data size', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -161,10 +146,6 @@ describe('Database Health Check', () => {
   });
 
   it('should include storage quota information when available', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -189,10 +170,6 @@ describe('Database Health Check', () => {
   });
 
   it('should provide actionable recommendations', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -214,10 +191,6 @@ describe('Database Health Check', () => {
   });
 
   it('should detect issues correctly', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -237,10 +210,6 @@ describe('Database Health Check', () => {
   });
 
   it('should include browser information', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -261,10 +230,6 @@ describe('Database Health Check', () => {
   });
 
   it('should calculate eviction risk', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
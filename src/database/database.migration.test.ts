@@ -1,5 +1,7 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { createDB } from './index.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createDB, Database } from './index.js';
+import { MigrationError } from '../errors/index.js';
+import type { DataMigration, Migration } from '../types/migration.js';
 
 describe('Database Migration System', () => {
   const testDBName = 'test-migration-db-' + Date.now();
@@ -15,10 +17,6 @@ describe('Database Migration System', () => {
   });
 
   afterEach(() => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     try {
       const db = createDB({
         name: testDBName,
@@ -35,12 +33,13 @@ describe('Database Migration System', () => {
   });
 
   it('should run migrations in order', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const migrationOrder: number[] = [];
 
+    // Migrations upgrade existing data, so they do not run when the database is created
+    const v1 = createDB({ name: testDBName, version: 1, stores: { users: { primaryKey: 'id' } } });
+    await v1.open();
+    v1.close();
+
     const db = createDB({
       name: testDBName,
       version: 3,
@@ -68,10 +67,6 @@ describe('Database Migration System', () => {
   });
 
   it('should check if migrations are needed', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 2,
@@ -94,10 +89,6 @@ describe('Database Migration System', () => {
   });
 
   it('should get migration history', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -115,10 +106,6 @@ describe('Database Migration System', () => {
   });
 
   it('should create backup', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -136,17 +123,13 @@ describe('Database Migration System', () => {
     const backup = await db.backup();
 
     expect(backup).toHaveProperty('users');
-    expect(backup.users.length).toBe(1);
-    expect(backup.users[0]).toHaveProperty('id', '1');
+    expect(backup.users?.length).toBe(1);
+    expect(backup.users?.[0]).toHaveProperty('id', '1');
 
     db.close();
   });
 
   it('should validate migrations before running', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     // Create version 1
     const db1 = createDB({
       name: testDBName,
@@ -183,10 +166,6 @@ describe('Database Migration System', () => {
   });
 
   it('should handle migration errors', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     // Create version 1
     const db1 = createDB({
       name: testDBName,
@@ -216,10 +195,6 @@ describe('Database Migration System', () => {
   });
 
   it('should support dry-run mode', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 2,
@@ -243,5 +218,408 @@ describe('Database Migration System', () => {
 
     db.close();
   });
-});
 
+  it('should run data migrations after the upgrade and resume from a checkpoint', async () => {
+    interface Contact {
+      id: string;
+      name: string;
+      first?: string;
+      last?: string;
+    }
+
+    const name = testDBName + '-data';
+    const stores = { contacts: { primaryKey: 'id' } };
+    const v1 = createDB({
+      name,
+      version: 1,
+      stores,
+      // A new database has nothing to migrate
+      dataMigrations: { 1: () => Promise.reject(new Error('should not run')) },
+    });
+    await v1.open();
+    for (let i = 0; i < 6; i++) {
+      await v1.table<Contact>('contacts').add({ id: `c${i}`, name: `First${i} Last${i}` });
+    }
+    v1.close();
+
+    const seen: string[] = [];
+    const splitNames = (failAt: number | null): Record<number, DataMigration> => ({
+      2: async ({ db, checkpoint, saveCheckpoint }): Promise<void> => {
+        const contacts = db.table<Contact>('contacts');
+        for (const id of await contacts.query().primaryKeys()) {
+          if (typeof checkpoint === 'string' && String(id) <= checkpoint) {
+            continue;
+          }
+          if (id === `c${failAt}`) {
+            throw new Error('tab closed');
+          }
+          seen.push(String(id));
+          await contacts.modify(id, (contact) => {
+            [contact.first, contact.last] = contact.name.split(' ');
+          });
+          await saveCheckpoint(id);
+        }
+      },
+    });
+
+    const interrupted = createDB({ name, version: 2, stores, dataMigrations: splitNames(3) });
+    const error = await interrupted.open().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MigrationError);
+    expect((error as MigrationError).message).toContain('tab closed');
+    expect(interrupted.isOpen()).toBe(false);
+
+    const resumed = createDB({ name, version: 2, stores, dataMigrations: splitNames(null) });
+    await resumed.open();
+    expect(seen).toEqual(['c0', 'c1', 'c2', 'c3', 'c4', 'c5']);
+    expect(await resumed.table<Contact>('contacts').get('c4')).toEqual({ id: 'c4', name: 'First4 Last4', first: 'First4', last: 'Last4' });
+    resumed.close();
+
+    // Finished migrations do not run again
+    const reopened = createDB({ name, version: 2, stores, dataMigrations: splitNames(0) });
+    await reopened.open();
+    reopened.close();
+  });
+
+  it('should hold other callers back until data migrations finish', async () => {
+    const name = testDBName + '-data-ready';
+    const stores = { contacts: { primaryKey: 'id' } };
+    const v1 = createDB({ name, version: 1, stores });
+    await v1.open();
+    await v1.table('contacts').add({ id: 'c1', name: 'Ada Lovelace' });
+    v1.close();
+
+    const order: string[] = [];
+    const outside: Array<Promise<unknown>> = [];
+    const v2 = createDB({
+      name,
+      version: 2,
+      stores,
+      dataMigrations: {
+        2: async ({ db }) => {
+          // Other code using the database meanwhile waits for open() to resolve
+          outside.push(
+            v2.table('contacts').get('c1').then((contact) => {
+              order.push('outside read');
+              return contact;
+            })
+          );
+          await db.table<{ id: string; name: string; first?: string }>('contacts').modify('c1', (contact) => {
+            contact.first = contact.name.split(' ')[0];
+          });
+          expect(v2.isOpen()).toBe(false);
+          order.push('migrated');
+        },
+      },
+    });
+
+    await v2.open();
+    expect(await Promise.all(outside)).toEqual([{ id: 'c1', name: 'Ada Lovelace', first: 'Ada' }]);
+    expect(order).toEqual(['migrated', 'outside read']);
+    v2.close();
+  });
+
+  it('should roll back and abort the upgrade when a migration throws', async () => {
+    const name = testDBName + '-rollback';
+    const stores = { users: { primaryKey: 'id' }, logs: { primaryKey: 'id', autoIncrement: true } };
+    const v1 = createDB({ name, version: 1, stores });
+    await v1.open();
+    await v1.table('users').add({ id: '1', name: 'John' });
+    v1.close();
+
+    const rolledBack: number[] = [];
+    const v3 = createDB({
+      name,
+      version: 3,
+      stores,
+      migrations: {
+        2: {
+          version: 2,
+          description: 'Clear users',
+          migrate: (tx) => {
+            tx.objectStore('users').clear();
+          },
+          rollback: (tx) => {
+            rolledBack.push(2);
+            tx.objectStore('logs').add({ message: 'rolled back 2' });
+          },
+        },
+        3: {
+          version: 3,
+          description: 'Rename users',
+          migrate: () => {
+            throw new Error('bad data');
+          },
+          rollback: () => {
+            rolledBack.push(3);
+          },
+        },
+      },
+    });
+    const ends: Array<{ description?: string; success: boolean }> = [];
+    v3.on('migration:end', ({ description, success }) => ends.push({ description, success }));
+
+    await expect(v3.open()).rejects.toThrow('bad data');
+    expect(rolledBack).toEqual([3, 2]);
+    expect(ends).toEqual([
+      { description: 'Clear users', success: true },
+      { description: 'Rename users', success: false },
+    ]);
+
+    // The aborted upgrade left the version and data untouched
+    const reopened = createDB({ name, version: 1, stores });
+    await reopened.open();
+    expect(await reopened.table('users').count()).toBe(1);
+    // Rollbacks run after the abort, so their writes are kept
+    expect(await reopened.table('logs').query().toArray()).toEqual([{ id: 1, message: 'rolled back 2' }]);
+    const history = await reopened.getMigrationHistory();
+    expect(history).toEqual([
+      expect.objectContaining({ fromVersion: 1, toVersion: 3, success: false, error: expect.stringContaining('bad data') as string, description: 'Clear users; Rename users' }),
+    ]);
+    reopened.close();
+  });
+
+  it('should record one history entry per real upgrade', async () => {
+    const name = testDBName + '-history';
+    const stores = { users: { primaryKey: 'id' } };
+    const v1 = createDB({ name, version: 1, stores });
+    await v1.open();
+    v1.close();
+
+    const v3 = createDB({
+      name,
+      version: 3,
+      stores,
+      migrations: {
+        2: { version: 2, description: 'Add users', migrate: () => {} },
+        3: {
+          version: 3,
+          description: 'Touch users',
+          migrate: async (tx) => {
+            await new Promise((resolve) => {
+              tx.objectStore('users').count().onsuccess = resolve;
+            });
+          },
+        },
+      },
+    });
+    await v3.open();
+    v3.close();
+
+    // An upgrade that only changes the schema is recorded too
+    const v4 = createDB({ name, version: 4, stores: { ...stores, logs: { primaryKey: 'id' } } });
+    await v4.open();
+
+    const history = await v4.getMigrationHistory();
+    expect(history.map(({ fromVersion, toVersion, success, description }) => ({ fromVersion, toVersion, success, description }))).toEqual([
+      { fromVersion: 1, toVersion: 3, success: true, description: 'Add users; Touch users' },
+      { fromVersion: 3, toVersion: 4, success: true, description: undefined },
+    ]);
+    for (const entry of history) {
+      expect(entry.duration).toBeGreaterThanOrEqual(0);
+      expect(entry.error).toBeUndefined();
+    }
+    v4.close();
+  });
+
+  it('should restore the backup when an async migration fails after the upgrade and retry it on the next open', async () => {
+    const name = testDBName + '-backup';
+    const stores = { users: { primaryKey: 'id' }, logs: { primaryKey: 'id', autoIncrement: true } };
+    const v1 = createDB({ name, version: 1, stores });
+    await v1.open();
+    await v1.table('users').bulkAdd([{ id: '1' }, { id: '2' }]);
+    v1.close();
+
+    const clearUsers = (failure: Error | null): Migration => ({
+      version: 2,
+      requiresBackup: true,
+      migrate: async (tx): Promise<void> => {
+        tx.objectStore('users').clear();
+        // Fails once the upgrade transaction has committed
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        if (failure) {
+          throw failure;
+        }
+      },
+      rollback: (tx): void => {
+        // Runs against the restored backup
+        const request = tx.objectStore('users').count();
+        request.onsuccess = (): void => {
+          tx.objectStore('logs').add({ message: `rolled back with ${request.result} users` });
+        };
+      },
+    });
+
+    const v2 = createDB({ name, version: 2, stores, migrations: { 2: clearUsers(new Error('remote lookup failed')) } });
+    await expect(v2.open()).rejects.toThrow(MigrationError);
+    expect(v2.isOpen()).toBe(false);
+
+    // The version stayed bumped, so the next open runs the migration again
+    const retried = createDB({ name, version: 2, stores, migrations: { 2: clearUsers(null) } });
+    const ends: boolean[] = [];
+    retried.on('migration:end', ({ success }) => ends.push(success));
+    await retried.open();
+    expect(ends).toEqual([true]);
+    expect(await retried.table('users').count()).toBe(0);
+    expect(await retried.table('logs').query().toArray()).toEqual([{ id: 1, message: 'rolled back with 2 users' }]);
+    const history = await retried.getMigrationHistory();
+    expect(history.map(({ toVersion, success }) => ({ toVersion, success }))).toEqual([
+      { toVersion: 2, success: false },
+      { toVersion: 2, success: true },
+    ]);
+    retried.close();
+
+    // Once it succeeded it does not run again
+    const reopened = createDB({ name, version: 2, stores, migrations: { 2: clearUsers(new Error('ran again')) } });
+    await reopened.open();
+    reopened.close();
+  });
+
+  it('should skip destructive schema changes unless they are allowed', async () => {
+    const name = testDBName + '-schema-diff';
+    const v1 = createDB({
+      name,
+      version: 1,
+      stores: {
+        users: { primaryKey: 'id', indexes: [{ name: 'email', keyPath: 'email' }, { name: 'age', keyPath: 'age' }] },
+        logs: { primaryKey: 'id' },
+      },
+    });
+    await v1.open();
+    await v1.table('users').add({ id: '1', email: 'a@example.com', age: 30 });
+    v1.close();
+
+    const stores = {
+      users: { primaryKey: 'id', indexes: [{ name: 'email', keyPath: 'email', unique: true }, { name: 'name', keyPath: 'name' }] },
+    };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const v2 = createDB({ name, version: 2, stores, debug: true });
+    const expected = [
+      { type: 'deleteStore', store: 'logs', destructive: true },
+      { type: 'deleteIndex', store: 'users', index: 'age', destructive: true },
+      { type: 'recreateIndex', store: 'users', index: 'email', destructive: true },
+    ].map((change) => expect.objectContaining(change) as unknown);
+    expect(await v2.schemaDiff()).toEqual([...expected, expect.objectContaining({ type: 'createIndex', index: 'name', destructive: false })]);
+
+    await v2.open();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('[NitroIDB] Skipped destructive schema changes'), expect.any(Array));
+    warn.mockRestore();
+    expect(await v2.schemaDiff()).toEqual(expected);
+    v2.close();
+
+    const v3 = createDB({ name, version: 3, stores, allowDestructiveSchemaChanges: true });
+    await v3.open();
+    expect(await v3.schemaDiff()).toEqual([]);
+    const connection = await v3.getDB();
+    expect(Array.from(connection.objectStoreNames)).not.toContain('logs');
+    const users = connection.transaction('users').objectStore('users');
+    expect(Array.from(users.indexNames).sort()).toEqual(['email', 'name']);
+    expect(users.index('email').unique).toBe(true);
+    v3.close();
+  });
+
+  it('should copy records into a store recreated for a new primary key', async () => {
+    const name = testDBName + '-recreate';
+    const v1 = createDB({ name, version: 1, stores: { users: { primaryKey: 'id' } } });
+    await v1.open();
+    await v1.table('users').bulkAdd([{ id: '1', uuid: 'b' }, { id: '2', uuid: 'a' }]);
+    v1.close();
+
+    const stores = { users: { primaryKey: 'uuid', indexes: [{ name: 'id', keyPath: 'id' }] } };
+    const v2 = createDB({ name, version: 2, stores, allowDestructiveSchemaChanges: true });
+    expect(await v2.schemaDiff()).toEqual([
+      expect.objectContaining({ type: 'recreateStore', store: 'users', destructive: true, description: 'Recreate store "users": primaryKey "id" -> "uuid"' }),
+    ]);
+
+    await v2.open();
+    expect(await v2.table('users').query().primaryKeys()).toEqual(['a', 'b']);
+    expect(Array.from((await v2.getDB()).objectStoreNames)).not.toContain('__recreate__users');
+    v2.close();
+  });
+
+  it('should fail a recreated store upgrade with a MigrationError naming the record that cannot be copied', async () => {
+    let seeded = 0;
+    // Each attempt starts from its own version 1 database
+    const openWith = async (transformOnRecreate?: (record: unknown) => unknown): Promise<unknown> => {
+      const name = `${testDBName}-recreate-fail-${++seeded}`;
+      const v1 = createDB({ name, version: 1, stores: { users: { primaryKey: 'id' } } });
+      await v1.open();
+      await v1.table('users').bulkAdd([{ id: '1', uuid: 'a' }, { id: '2', uuid: 'a' }, { id: '3' }]);
+      v1.close();
+
+      const v2 = createDB({
+        name,
+        version: 2,
+        stores: { users: { primaryKey: 'uuid', transformOnRecreate } },
+        allowDestructiveSchemaChanges: true,
+      });
+      return v2.open().then(
+        () => v2,
+        (error: unknown) => error
+      );
+    };
+
+    const missing = await openWith((record) => ((record as { id: string }).id === '2' ? undefined : record));
+    expect(missing).toBeInstanceOf(MigrationError);
+    expect((missing as MigrationError).message).toContain('Cannot copy record "3" into recreated store "users": it has no valid key at "uuid"');
+
+    const collision = await openWith((record) => ((record as { id: string }).id === '3' ? undefined : record));
+    expect(collision).toBeInstanceOf(MigrationError);
+    expect((collision as MigrationError).message).toContain('Cannot copy record "2" into recreated store "users": another record already has key "a"');
+
+    // A transform can move records to the new key path
+    const migrated = await openWith((record) => {
+      const user = record as { id: string; uuid?: string };
+      return { ...user, uuid: `${user.uuid ?? 'none'}-${user.id}` };
+    });
+    expect(migrated).toBeInstanceOf(Database);
+    expect(await (migrated as Database).table('users').query().primaryKeys()).toEqual(['a-1', 'a-2', 'none-3']);
+    (migrated as Database).close();
+  });
+
+  it('should bump the IndexedDB version when the schema fingerprint changes', async () => {
+    const name = testDBName + '-auto-version';
+    const openAt = async (options: Omit<Parameters<typeof createDB>[0], 'name'>): Promise<number> => {
+      const db = createDB({ name, autoVersion: true, ...options });
+      const version = (await db.open()).version;
+      db.close();
+      return version;
+    };
+
+    const stores = { users: { primaryKey: 'id' } };
+    expect(await openAt({ version: 1, stores })).toBe(1);
+    expect(await openAt({ version: 1, stores })).toBe(1);
+
+    // A new index upgrades without touching `version`
+    const indexed = { users: { primaryKey: 'id', indexes: [{ name: 'email', keyPath: 'email' }] } };
+    expect(await openAt({ version: 1, stores: indexed })).toBe(2);
+
+    // Migrations stay keyed by the logical version
+    const ran: Array<[number, number]> = [];
+    const migrations = {
+      2: { version: 2, migrate: (): void => {} },
+    };
+    const v1 = createDB({ name, version: 1, stores: indexed, migrations, autoVersion: true });
+    expect((await v1.open()).version).toBe(2);
+    expect(v1.needsMigration()).toBe(false);
+    expect(v1.needsMigration(2)).toBe(true);
+    v1.close();
+    const v2 = createDB({ name, version: 2, stores: indexed, migrations, autoVersion: true });
+    v2.on('migration:start', ({ fromVersion, toVersion }) => ran.push([fromVersion, toVersion]));
+    expect((await v2.open()).version).toBe(3);
+    expect(ran).toEqual([[1, 2]]);
+    const connection = await v2.getDB();
+    expect(Array.from(connection.transaction('users').objectStore('users').indexNames)).toEqual(['email']);
+    v2.close();
+
+    expect(await openAt({ version: 2, stores: indexed, migrations })).toBe(3);
+  });
+
+  it('should reject Migration objects registered under another version', () => {
+    expect(() => createDB({
+      name: testDBName,
+      version: 2,
+      stores: { users: { primaryKey: 'id' } },
+      migrations: { 2: { version: 3, migrate: () => {} } },
+    })).toThrow('Migration registered for version 2 declares version 3');
+  });
+});
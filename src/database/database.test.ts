@@ -1,6 +1,18 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, expectTypeOf, vi, beforeEach, afterEach } from 'vitest';
 import { createDB, Database } from './index.js';
 import type { DatabaseOptions } from '../types/schema.js';
+import type { MigrationEndEvent } from '../types/events.js';
+import { Table } from '../table/table.js';
+import { KVStore } from '../kv/kv-store.js';
+import { UpgradeBlockedError } from '../errors/migration.js';
+import { OpenTimeoutError } from '../errors/connection.js';
+import { QuotaExceededError } from '../errors/storage.js';
+
+interface User {
+  id: string;
+  email: string;
+  age: number;
+}
 
 describe('Database', () => {
   const testDBName = 'test-db-' + Date.now();
@@ -50,12 +62,88 @@ describe('Database', () => {
     expect(db.getVersion()).toBe(1);
   });
 
-  it('should open database', async () => {
-    if (typeof indexedDB === 'undefined') {
-      // Skip if IndexedDB not available
-      return;
-    }
+  it('should type tables from the schema map', () => {
+    const db = createDB<{ users: User }>()({
+      name: testDBName,
+      version: 1,
+      stores: {
+        users: { primaryKey: 'id' },
+      },
+    });
+
+    const users = db.table('users');
+    expect(users).toBeInstanceOf(Table);
+    expectTypeOf(users).toEqualTypeOf<Table<User, string>>();
+  });
+
+  it('should key tables by any valid key when the store definitions are not inferred', () => {
+    const db = createDB<{ users: User }>({
+      name: testDBName,
+      version: 1,
+      stores: {
+        users: { primaryKey: 'id' },
+      },
+    });
+
+    expectTypeOf(db.table('users')).toEqualTypeOf<Table<User, IDBValidKey>>();
+  });
+
+  it('should type tables of a transaction context from the schema map', () => {
+    const db = createDB<{ users: User }>()({
+      name: testDBName,
+      version: 1,
+      stores: {
+        users: { primaryKey: 'id' },
+      },
+    });
+
+    type Context = Parameters<Parameters<typeof db.transaction.readonly>[1]>[0];
+    const readUsers = (ctx: Context): Table<User, string> => ctx.table('users');
+    expectTypeOf(readUsers).returns.toEqualTypeOf<Table<User, string>>();
+  });
+
+  it('should accept a typed database wherever a database is expected', () => {
+    const db = createDB<{ users: User }>()({
+      name: testDBName,
+      version: 1,
+      stores: {
+        users: { primaryKey: 'id' },
+      },
+    });
+
+    expectTypeOf(db).toMatchTypeOf<Database>();
+    expect(new KVStore(db)).toBeInstanceOf(KVStore);
+  });
 
+  it('should derive primary key types from declared stores', () => {
+    const stores = {
+      users: { primaryKey: 'email' as const },
+    };
+
+    const db = createDB<{ users: User }, typeof stores>({
+      name: testDBName,
+      version: 1,
+      stores,
+    });
+
+    const users = db.table('users');
+    expectTypeOf<Parameters<typeof users.get>[0]>().toEqualTypeOf<string>();
+  });
+
+  it('should reject undeclared store names', () => {
+    const db = createDB<{ users: User }>({
+      name: testDBName,
+      version: 1,
+      stores: {
+        users: { primaryKey: 'id' },
+      },
+    });
+
+    // @ts-expect-error - "posts" is not declared in the schema
+    expect(() => db.table('posts')).toThrow('Store "posts" does not exist in schema');
+  });
+
+  it('should open database', async () => {
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -74,10 +162,6 @@ describe('Database', () => {
   });
 
   it('should create object stores', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -102,10 +186,6 @@ describe('Database', () => {
   });
 
   it('should handle version upgrades', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     // Create version 1
     const db1 = createDB({
       name: testDBName,
@@ -140,12 +220,13 @@ describe('Database', () => {
   });
 
   it('should run migrations', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     let migrationCalled = false;
 
+    // Migrations upgrade existing data, so they do not run when the database is created
+    const v1 = createDB({ name: testDBName, version: 1, stores: { users: { primaryKey: 'id' } } });
+    await v1.open();
+    v1.close();
+
     const db = createDB({
       name: testDBName,
       version: 2,
@@ -169,10 +250,6 @@ describe('Database', () => {
   });
 
   it('should throw on invalid version downgrade', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     // Create version 2
     const db1 = createDB({
       name: testDBName,
@@ -195,5 +272,277 @@ describe('Database', () => {
 
     await expect(db2.open()).rejects.toThrow('Invalid version');
   });
-});
 
+  it('should emit change events for local and cross-tab writes', async () => {
+    if (typeof BroadcastChannel === 'undefined') {
+      return;
+    }
+
+    const options = {
+      name: testDBName + '-change',
+      version: 1,
+      stores: {
+        users: { primaryKey: 'id' },
+      },
+    };
+    const db1 = createDB(options);
+    const db2 = createDB(options);
+    await db1.open();
+    await db2.open();
+
+    const local = vi.fn();
+    const remote = vi.fn();
+    db1.on('change', local);
+    db2.on('change', remote);
+
+    await db1.table('users').put({ id: '1', email: 'a@b.c', age: 30 });
+    await vi.waitFor(() => expect(remote).toHaveBeenCalled());
+
+    expect(local).toHaveBeenCalledWith({ store: 'users', type: 'put', keys: ['1'], remote: false });
+    expect(remote).toHaveBeenCalledWith({ store: 'users', type: 'put', keys: ['1'], remote: true });
+
+    db1.off('change', local);
+    db1.close();
+    db2.close();
+  });
+
+  it('should close old connections when another tab upgrades', async () => {
+    const name = testDBName + '-versionchange';
+    const stores = { users: { primaryKey: 'id' } };
+    const oldTab = createDB({ name, version: 1, stores });
+    await oldTab.open();
+    const versionchange = vi.fn();
+    oldTab.on('versionchange', versionchange);
+
+    const newTab = createDB({ name, version: 2, stores });
+    await newTab.open();
+
+    expect(versionchange).toHaveBeenCalledWith({ oldVersion: 1, newVersion: 2, closed: true });
+    expect(oldTab.isOpen()).toBe(false);
+    newTab.close();
+  });
+
+  it('should time out upgrades blocked by connections that stay open', async () => {
+    const name = testDBName + '-blocked';
+    const stores = { users: { primaryKey: 'id' } };
+    const oldTab = createDB({ name, version: 1, stores, versionChangePolicy: 'keep' });
+    await oldTab.open();
+    const versionchange = vi.fn();
+    oldTab.on('versionchange', versionchange);
+
+    const newTab = createDB({ name, version: 2, stores, upgradeBlockedTimeout: 50 });
+    const blocked = vi.fn();
+    newTab.on('blocked', blocked);
+
+    await expect(newTab.open()).rejects.toBeInstanceOf(UpgradeBlockedError);
+    expect(blocked).toHaveBeenCalledWith({ oldVersion: 1, newVersion: 2 });
+    expect(versionchange).toHaveBeenCalledWith({ oldVersion: 1, newVersion: 2, closed: false });
+    expect(oldTab.isOpen()).toBe(true);
+    expect(newTab.isUpgradeBlocked()).toBe(false);
+
+    oldTab.close();
+  });
+
+  it('should report blocked upgrades in health()', async () => {
+    const name = testDBName + '-blocked-health';
+    const stores = { users: { primaryKey: 'id' } };
+    const oldTab = createDB({ name, version: 1, stores, versionChangePolicy: 'keep' });
+    await oldTab.open();
+
+    const newTab = createDB({ name, version: 2, stores, upgradeBlockedTimeout: 0 });
+    const blocked = new Promise((resolve) => newTab.on('blocked', resolve));
+    const opening = newTab.open();
+    await blocked;
+
+    const health = await newTab.health({ checkQuota: false });
+    expect(health.upgradeBlocked).toBe(true);
+    expect(health.issues).toContain('Database upgrade is blocked by connections in other tabs');
+
+    // The upgrade proceeds once the old connection goes away
+    oldTab.close();
+    await opening;
+    expect(newTab.isUpgradeBlocked()).toBe(false);
+    newTab.close();
+  });
+
+  it('should retry open requests that never fire any event', async () => {
+    const db = createDB({
+      name: testDBName + '-hung',
+      version: 1,
+      stores: { users: { primaryKey: 'id' } },
+      openTimeout: 20,
+      openRetryDelay: 1,
+    });
+    const open = vi.spyOn(indexedDB, 'open').mockReturnValueOnce({} as IDBOpenDBRequest);
+
+    await db.open();
+    expect(open).toHaveBeenCalledTimes(2);
+    expect(db.isOpen()).toBe(true);
+
+    open.mockRestore();
+    db.close();
+  });
+
+  it('should retry the current-version open that autoVersion sends first', async () => {
+    const db = createDB({
+      name: testDBName + '-hung-current',
+      version: 1,
+      autoVersion: true,
+      stores: { users: { primaryKey: 'id' } },
+      openTimeout: 20,
+      openRetryDelay: 1,
+    });
+    const open = vi.spyOn(indexedDB, 'open').mockReturnValueOnce({} as IDBOpenDBRequest);
+
+    await db.open();
+    // The hung version check, its retry and the open itself
+    expect(open).toHaveBeenCalledTimes(3);
+    expect(open.mock.calls[0]).toEqual([testDBName + '-hung-current']);
+    expect(db.isOpen()).toBe(true);
+
+    open.mockRestore();
+    db.close();
+  });
+
+  it('should reject with OpenTimeoutError once retries run out', async () => {
+    const db = createDB({
+      name: testDBName + '-hung',
+      version: 1,
+      stores: { users: { primaryKey: 'id' } },
+      openTimeout: 20,
+      openRetries: 1,
+      openRetryDelay: 1,
+    });
+    const open = vi.spyOn(indexedDB, 'open').mockReturnValue({} as IDBOpenDBRequest);
+
+    const error = await db.open().catch((e: unknown) => e);
+    expect(open).toHaveBeenCalledTimes(2);
+    open.mockRestore();
+
+    expect(error).toBeInstanceOf(OpenTimeoutError);
+    expect((error as OpenTimeoutError).code).toBe('OPEN_TIMEOUT');
+    expect((error as OpenTimeoutError).context).toMatchObject({ timeout: 20, attempts: 2 });
+    expect(db.isOpen()).toBe(false);
+  });
+
+  it('should emit open, upgrade and close events', async () => {
+    const name = testDBName + '-lifecycle';
+    const db = createDB({ name, version: 1, stores: { users: { primaryKey: 'id' } } });
+    const events: string[] = [];
+    db.on('upgrade', (event) => events.push(`upgrade ${event.oldVersion}->${event.newVersion}`));
+    db.on('open', (event) => events.push(`open ${event.name}@${event.version}`));
+    db.on('close', () => events.push('close'));
+
+    await db.open();
+    db.close();
+    db.close();
+
+    expect(events).toEqual(['upgrade 0->1', `open ${name}@1`, 'close']);
+  });
+
+  it('should emit migration events around each step', async () => {
+    const name = testDBName + '-migration-events';
+    const stores = { users: { primaryKey: 'id' } };
+    const v1 = createDB({ name, version: 1, stores });
+    await v1.open();
+    v1.close();
+
+    const v2 = createDB({ name, version: 2, stores, migrations: { 2: () => {} } });
+    const start = vi.fn();
+    const ends: MigrationEndEvent[] = [];
+    v2.on('migration:start', start);
+    v2.on('migration:end', (event) => ends.push(event));
+    await v2.open();
+    v2.close();
+
+    expect(start).toHaveBeenCalledWith({ fromVersion: 1, toVersion: 2 });
+    expect(ends).toEqual([expect.objectContaining({ fromVersion: 1, toVersion: 2, success: true })]);
+
+    const v3 = createDB({
+      name,
+      version: 3,
+      stores,
+      migrations: {
+        3: () => {
+          throw new Error('bad data');
+        },
+      },
+    });
+    const errors = vi.fn();
+    v3.on('migration:end', (event) => ends.push(event));
+    v3.on('error', errors);
+
+    await expect(v3.open()).rejects.toThrow('bad data');
+    expect(ends[1]).toMatchObject({ fromVersion: 2, toVersion: 3, success: false });
+    expect(ends[1]?.error?.message).toContain('bad data');
+    expect(errors).toHaveBeenCalledWith(expect.objectContaining({ source: 'migration' }));
+  });
+
+  it('should forget connections the browser closes', async () => {
+    const db = createDB({
+      name: testDBName + '-unexpected-close',
+      version: 1,
+      stores: { users: { primaryKey: 'id' } },
+    });
+    const idb = await db.open();
+    const unexpectedClose = vi.fn();
+    const close = vi.fn();
+    db.on('unexpectedClose', unexpectedClose);
+    db.on('close', close);
+
+    // Browsers fire close when the connection is lost without close() being called
+    idb.onclose?.call(idb, new Event('close'));
+
+    expect(unexpectedClose).toHaveBeenCalledTimes(1);
+    expect(close).not.toHaveBeenCalled();
+    expect(db.isOpen()).toBe(false);
+    idb.close();
+  });
+
+  it('should emit error events from subsystems', async () => {
+    const db = createDB({
+      name: testDBName + '-errors',
+      version: 1,
+      stores: { users: { primaryKey: 'id' } },
+    });
+    const errors = vi.fn();
+    const quotaWarnings = vi.fn();
+    db.on('error', errors);
+    db.on('quotaWarning', quotaWarnings);
+
+    await db.table('users').add({ id: '1' });
+    await expect(db.table('users').add({ id: '1' })).rejects.toThrow();
+    expect(errors).toHaveBeenCalledWith(
+      expect.objectContaining({ source: 'table', storeNames: ['users'], operation: 'add' })
+    );
+
+    const quotaError = new QuotaExceededError();
+    expect(db.reportError(quotaError, { source: 'kv' })).toBe(quotaError);
+    expect(quotaWarnings).toHaveBeenCalledWith({ source: 'kv', error: quotaError });
+
+    db.close();
+  });
+
+  it('should resolve durability hints for write transactions', () => {
+    const db = createDB({
+      name: testDBName + '-durability',
+      version: 1,
+      durability: 'strict',
+      stores: {
+        users: { primaryKey: 'id' },
+        cache: { primaryKey: 'url', durability: 'relaxed' },
+      },
+    });
+    db.getQuirks().supportsDurability = true;
+
+    expect(db.getTransactionOptions(['users'], 'readwrite')).toEqual({ durability: 'strict' });
+    expect(db.getTransactionOptions(['cache'], 'readwrite')).toEqual({ durability: 'relaxed' });
+    expect(db.getTransactionOptions(['cache', 'users'], 'readwrite')).toEqual({ durability: 'strict' });
+    expect(db.getTransactionOptions(['users'], 'readwrite', 'relaxed')).toEqual({ durability: 'relaxed' });
+    expect(db.getTransactionOptions(['users'], 'readwrite', 'default')).toBeUndefined();
+    expect(db.getTransactionOptions(['cache'], 'readonly')).toBeUndefined();
+
+    db.getQuirks().supportsDurability = false;
+    expect(db.getTransactionOptions(['cache'], 'readwrite')).toBeUndefined();
+  });
+});
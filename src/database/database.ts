@@ -1,9 +1,30 @@
-import type { DatabaseOptions, DatabaseSchema } from '../types/schema.js';
+import type {
+  DatabaseOptions,
+  DatabaseSchema,
+  VersionChangePolicy,
+  TableMap,
+  StoreDefinitions,
+  StoreName,
+  StoreKeys,
+  KeyMap,
+  SchemaChange,
+} from '../types/schema.js';
 import type { BrowserInfo } from '../types/browser.js';
-import { validateSchema, checkIndexedDBAvailability, createObjectStores } from '../utils/schema.js';
+import type { TransactionMode, TransactionDurability } from '../types/transaction.js';
+import {
+  validateSchema,
+  checkIndexedDBAvailability,
+  createObjectStores,
+  diffSchema,
+  hashSchema,
+  readSchemaState,
+  markSchemaState,
+} from '../utils/schema.js';
 import { detectBrowser } from '../utils/browser.js';
 import { BrowserIncompatibilityError } from '../errors/browser.js';
-import { MigrationError, InvalidVersionError } from '../errors/migration.js';
+import { MigrationError, InvalidVersionError, UpgradeBlockedError } from '../errors/migration.js';
+import { OpenTimeoutError } from '../errors/connection.js';
+import { QuotaExceededError } from '../errors/storage.js';
 import { KVStore } from '../kv/kv-store.js';
 import { Table } from '../table/table.js';
 import { TransactionManager } from '../transaction/transaction.js';
@@ -20,11 +41,19 @@ import {
 import type { HealthCheckResult, HealthCheckOptions } from '../types/health.js';
 import {
   runMigrations as runMigrationsUtil,
+  runDataMigrations,
+  markDataMigrations,
+  normalizeMigrations,
+  restoreBackup,
+  appendMigrationHistory,
+  saveMigrationHistory,
   getMigrationHistory,
   createBackup,
   needsMigration,
+  getFailedMigration,
+  saveFailedMigration,
 } from '../utils/migration.js';
-import type { MigrationOptions, MigrationResult, MigrationHistoryEntry } from '../types/migration.js';
+import type { Migration, MigrationOptions, MigrationResult, MigrationHistoryEntry, DataMigration } from '../types/migration.js';
 import {
   getDatabaseDiagnostics,
   formatDiagnostics,
@@ -33,11 +62,44 @@ import {
 } from '../utils/diagnostics.js';
 import type { DatabaseDiagnostics, StoreInspection, ErrorRecoveryOptions, ErrorRecoveryResult } from '../types/diagnostics.js';
 import { recoverFromError, determineRecoveryStrategy } from '../utils/recovery.js';
+import { ChangeTracker, ChangeFeed, LiveQuery } from '../live/index.js';
+import type { LiveQueryOptions } from '../types/live.js';
+import type { DatabaseEvents, DatabaseErrorEvent } from '../types/events.js';
+import { EventEmitter } from '../utils/events.js';
+
+/**
+ * Migrations run by one upgrade
+ */
+interface MigrationRun {
+  /** Logical version the migrations start from */
+  fromVersion: number;
+  /** Logical version the migrations end at */
+  toVersion: number;
+  /** Migrations that were started, in order */
+  applied: Migration[];
+  /** One per async migration: resolves to its error, or null once it succeeded */
+  settled: Array<Promise<MigrationError | null>>;
+  /** Snapshot taken before the upgrade, when a migration requires one */
+  backup: Record<string, unknown[]> | null;
+  /** When the run started */
+  startTime: number;
+  /** Error of the first migration that failed */
+  error: MigrationError | null;
+  /** Whether the history entry of the run was written */
+  recorded: boolean;
+}
 
 /**
  * Database instance
+ *
+ * `TTables` maps store names to record types and `TKeys` store names to primary
+ * key types. Both are covariant, so a typed database can be passed wherever a
+ * plain `Database` is expected.
  */
-export class Database {
+export class Database<
+  out TTables extends TableMap = TableMap,
+  out TKeys extends KeyMap<TTables> = KeyMap<TTables>,
+> {
   /** IDBDatabase instance */
   private _db: IDBDatabase | null = null;
   /** Schema definition */
@@ -48,15 +110,49 @@ export class Database {
   readonly compatMode: 'auto' | 'safari' | 'strict';
   /** Debug mode */
   readonly debug: boolean;
-  /** Migration functions */
-  readonly migrations: Record<number, (transaction: IDBTransaction, db: IDBDatabase) => void | Promise<void>>;
+  /** Migrations by version */
+  readonly migrations: Record<number, Migration>;
+  /** Async data migrations run after upgrades */
+  readonly dataMigrations: Record<number, DataMigration>;
+  /** Whether change notifications are shared with other tabs */
+  readonly crossTab: boolean;
+  /** Reaction to version changes requested by other tabs */
+  readonly versionChangePolicy: VersionChangePolicy;
+  /** Milliseconds an upgrade may stay blocked before `open()` fails (0 waits forever) */
+  readonly upgradeBlockedTimeout: number;
+  /** Milliseconds to wait for the open request to fire any event (0 waits forever) */
+  readonly openTimeout: number;
+  /** Extra open attempts after a timeout */
+  readonly openRetries: number;
+  /** Base delay between open attempts (doubled on each retry) */
+  readonly openRetryDelay: number;
+  /** Default durability hint for write transactions */
+  readonly durability: TransactionDurability;
+  /** Whether upgrades drop and recreate stores and indexes that changed */
+  readonly allowDestructiveSchemaChanges: boolean;
+  /** Whether the IndexedDB version is derived from the schema fingerprint */
+  readonly autoVersion: boolean;
 
   /** KV store instance */
   private _kv: KVStore | null = null;
   /** Transaction manager instance */
-  private _transactionManager: TransactionManager | null = null;
+  private _transactionManager: TransactionManager<TTables, TKeys> | null = null;
   /** Browser quirks detected */
   private _quirks: BrowserQuirks | null = null;
+  /** Change tracker for live queries */
+  private _changeTracker: ChangeTracker | null = null;
+  /** Cross-tab change relay */
+  private _changeFeed: ChangeFeed | null = null;
+  /** Pending open request shared by concurrent `open()` calls */
+  private _opening: Promise<IDBDatabase> | null = null;
+  /** Whether the pending upgrade is blocked by other connections */
+  private _upgradeBlocked = false;
+  /** Migrations run by the upgrade of the pending open request */
+  private _migrationRun: MigrationRun | null = null;
+  /** IndexedDB version to open and logical versions in place before and after it, resolved for `autoVersion` */
+  private _autoVersion: { version: number; fromVersion: number; toVersion: number } | null = null;
+  /** Database event listeners */
+  private readonly events = new EventEmitter<DatabaseEvents>();
 
   constructor(options: DatabaseOptions) {
     // Validate schema
@@ -76,7 +172,14 @@ export class Database {
     this.browserInfo = detectBrowser();
     this.compatMode = options.compatMode ?? 'auto';
     this.debug = options.debug ?? false;
-    this.migrations = options.migrations ?? {};
+    this.migrations = normalizeMigrations(options.migrations ?? {});
+    this.dataMigrations = options.dataMigrations ?? {};
+    this.crossTab = options.crossTab ?? true;
+    this.versionChangePolicy = options.versionChangePolicy ?? 'close';
+    this.upgradeBlockedTimeout = options.upgradeBlockedTimeout ?? 10000;
+    this.durability = options.durability ?? 'default';
+    this.allowDestructiveSchemaChanges = options.allowDestructiveSchemaChanges ?? false;
+    this.autoVersion = options.autoVersion ?? false;
 
     // Check IndexedDB availability
     checkIndexedDBAvailability();
@@ -86,6 +189,9 @@ export class Database {
 
     // Detect browser quirks
     this._quirks = detectQuirks(this.browserInfo, this.compatMode);
+    this.openTimeout = options.openTimeout ?? this._quirks.recommendedTimeout;
+    this.openRetries = options.openRetries ?? 2;
+    this.openRetryDelay = options.openRetryDelay ?? (this._quirks.safariQuirks ? 200 : 100);
 
     // Generate and log warnings in debug mode
     if (this.debug) {
@@ -102,10 +208,204 @@ export class Database {
       return this._db;
     }
 
+    if (!this._opening) {
+      this._opening = this.resolveAutoVersion()
+        .then(() => this.backupBeforeUpgrade())
+        .then((backup) => this.openWithRetry(backup))
+        .catch(async (error: unknown) => {
+          await this.recoverAbortedUpgrade();
+          throw error;
+        })
+        .then((connection) => this.finishMigrations(connection))
+        .then((connection) => this.retryFailedMigrations(connection))
+        .then((connection) => this.finishDataMigrations(connection))
+        .then((connection) => this.publish(connection))
+        .finally(() => {
+        this._opening = null;
+      });
+    }
+    return this._opening;
+  }
+
+  /**
+   * With `autoVersion`, compare the declared schema with the fingerprint stored by
+   * the last upgrade: the current IndexedDB version is kept when neither it nor the
+   * logical version changed, otherwise the next one is opened
+   */
+  private async resolveAutoVersion(): Promise<void> {
+    this._autoVersion = null;
+    if (!this.autoVersion) {
+      return;
+    }
+
+    let connection: IDBDatabase | null = null;
+    try {
+      connection = await this.openCurrentVersion();
+      if (!connection) {
+        this._autoVersion = { version: this.schema.version, fromVersion: 0, toVersion: this.schema.version };
+        return;
+      }
+
+      // A database without a stored state was versioned by hand until now
+      const state = await readSchemaState(connection);
+      const fromVersion = state?.version ?? connection.version;
+      const changed = state?.hash !== hashSchema(this.schema.stores) || this.schema.version > fromVersion;
+      this._autoVersion = changed
+        ? { version: connection.version + 1, fromVersion, toVersion: this.schema.version }
+        : { version: connection.version, fromVersion, toVersion: fromVersion };
+      if (changed) {
+        this.logDebug(`Schema changed, upgrading to IndexedDB version ${this._autoVersion.version}`);
+      }
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      throw this.reportError(failure, { source: 'open' });
+    } finally {
+      connection?.close();
+    }
+  }
+
+  /**
+   * Open the database, retrying with exponential backoff when the request hangs
+   */
+  private async openWithRetry(backup: Record<string, unknown[]> | null): Promise<IDBDatabase> {
+    try {
+      return await this.retryOpenTimeouts((attempt) => this.openConnection(attempt, backup));
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      throw this.reportError(failure, { source: failure instanceof MigrationError ? 'migration' : 'open' });
+    }
+  }
+
+  /**
+   * Send an open request again, with exponential backoff, each time it times out
+   */
+  private async retryOpenTimeouts<T>(open: (attempt: number) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await open(attempt);
+      } catch (error) {
+        if (!(error instanceof OpenTimeoutError) || attempt > this.openRetries) {
+          throw error;
+        }
+        this.logDebug(`Opening timed out, retrying (${attempt}/${this.openRetries})`);
+        await new Promise((resolve) => setTimeout(resolve, this.openRetryDelay * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  /**
+   * Run pending data migrations before `open()` resolves
+   * Their own reads and writes go through `migrationView()`; a failure closes the
+   * connection so the next `open()` resumes from the last checkpoint.
+   */
+  private async finishDataMigrations(connection: IDBDatabase): Promise<IDBDatabase> {
+    if (Object.keys(this.dataMigrations).length === 0) {
+      return connection;
+    }
+
+    try {
+      await runDataMigrations(this.migrationView(connection), this.dataMigrations, this.schema.version, {
+        browserInfo: this.browserInfo,
+        debug: this.debug,
+      });
+    } catch (error) {
+      connection.close();
+      const failure = error instanceof Error ? error : new Error(String(error));
+      throw this.reportError(failure, { source: 'migration' });
+    }
+    return connection;
+  }
+
+  /**
+   * Make a connection whose migrations finished the one every operation uses
+   */
+  private publish(connection: IDBDatabase): IDBDatabase {
+    this._db = connection;
+    if (this.crossTab) {
+      this.getChangeFeed().start();
+    }
+    this.events.emit('open', { name: connection.name, version: connection.version });
+    return connection;
+  }
+
+  /**
+   * This database as the steps that finish an upgrade see it: its handles use
+   * `connection`, which `open()` and `getDB()` hold back from other callers until
+   * those steps are done
+   */
+  private migrationView(connection: IDBDatabase): Database<TTables, TKeys> {
+    // Handles are bound to the database that created them, so none are shared
+    const view = Object.create(this, {
+      _kv: { value: null, writable: true },
+      _transactionManager: { value: null, writable: true },
+      getDB: { value: () => Promise.resolve(connection) },
+      open: { value: () => Promise.resolve(connection) },
+      isOpen: { value: () => true },
+    }) as Database<TTables, TKeys>;
+    // Created on the database itself, so its live queries see the migrations' writes
+    this.getChangeTracker();
+    return view;
+  }
+
+  /**
+   * Send the open request and handle upgrades, blocking and version changes
+   * `backup` is the snapshot to restore if an async migration fails after the upgrade.
+   */
+  private openConnection(attempt: number, backup: Record<string, unknown[]> | null): Promise<IDBDatabase> {
+    this._migrationRun = null;
+    const version = this._autoVersion?.version ?? this.schema.version;
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.schema.name, this.schema.version);
+      const request = indexedDB.open(this.schema.name, version);
+      let blockedTimer: ReturnType<typeof setTimeout> | null = null;
+      let abandoned = false;
 
-      request.onerror = () => {
+      // Some browsers (notably iOS Safari) never fire any event on the request
+      let openTimer: ReturnType<typeof setTimeout> | null = null;
+      if (this.openTimeout > 0) {
+        openTimer = setTimeout(() => {
+          abandoned = true;
+          reject(new OpenTimeoutError(this.openTimeout, attempt, { browserInfo: this.browserInfo }));
+        }, this.openTimeout);
+      }
+
+      const stopOpenTimer = (): void => {
+        if (openTimer) {
+          clearTimeout(openTimer);
+          openTimer = null;
+        }
+      };
+
+      const clearTimers = (): void => {
+        stopOpenTimer();
+        if (blockedTimer) {
+          clearTimeout(blockedTimer);
+          blockedTimer = null;
+        }
+        this._upgradeBlocked = false;
+      };
+
+      request.onblocked = (event): void => {
+        // Blocked upgrades have their own timeout
+        stopOpenTimer();
+        this._upgradeBlocked = true;
+        this.logDebug(`Upgrade to version ${version} is blocked by connections in other tabs`);
+        this.events.emit('blocked', { oldVersion: event.oldVersion, newVersion: version });
+
+        if (this.upgradeBlockedTimeout > 0 && !blockedTimer) {
+          blockedTimer = setTimeout(() => {
+            abandoned = true;
+            clearTimers();
+            reject(
+              new UpgradeBlockedError(event.oldVersion, version, this.upgradeBlockedTimeout, {
+                browserInfo: this.browserInfo,
+              })
+            );
+          }, this.upgradeBlockedTimeout);
+        }
+      };
+
+      request.onerror = (): void => {
+        clearTimers();
         const error = request.error;
         if (error) {
           // Check for version error
@@ -113,7 +413,7 @@ export class Database {
             reject(
               new InvalidVersionError(
                 (error as unknown as { oldVersion?: number }).oldVersion ?? 0,
-                this.schema.version,
+                version,
                 { browserInfo: this.browserInfo }
               )
             );
@@ -137,27 +437,122 @@ export class Database {
       };
 
       request.onsuccess = () => {
-        this._db = request.result;
-        resolve(this._db);
+        clearTimers();
+        const connection = request.result;
+        if (abandoned) {
+          // open() already rejected; don't keep a connection nobody owns
+          connection.close();
+          return;
+        }
+
+        connection.onversionchange = (event): void => this.handleVersionChange(connection, event);
+        connection.onclose = (): void => this.handleUnexpectedClose(connection);
+        resolve(connection);
       };
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
         const transaction = (event.target as IDBOpenDBRequest).transaction;
-        const oldVersion = event.oldVersion;
-        const newVersion = event.newVersion ?? this.schema.version;
+        // Migrations are keyed by logical versions, which differ from IndexedDB's with autoVersion
+        const oldVersion = this._autoVersion && event.oldVersion > 0 ? this._autoVersion.fromVersion : event.oldVersion;
+        const newVersion = this._autoVersion ? this.schema.version : event.newVersion ?? this.schema.version;
+
+        clearTimers();
+        if (abandoned) {
+          transaction?.abort();
+          return;
+        }
+
+        this.events.emit('upgrade', { oldVersion, newVersion });
+
+        // Abort the upgrade for a failure reported once this handler has returned
+        const abortUpgrade = (error: MigrationError): void => {
+          if (abandoned) {
+            return;
+          }
+          abandoned = true;
+          try {
+            transaction?.abort();
+          } catch {
+            // Already finished
+          }
+          db.close();
+          reject(error);
+        };
 
         try {
-          // Create or update object stores
-          createObjectStores(db, this.schema, oldVersion, newVersion, transaction ?? undefined);
+          // Create, drop or alter object stores
+          const skipped = createObjectStores(
+            db,
+            this.schema,
+            oldVersion,
+            newVersion,
+            transaction ?? undefined,
+            this.allowDestructiveSchemaChanges,
+            (error) => abortUpgrade(new MigrationError(oldVersion, newVersion, error.message, { browserInfo: this.browserInfo }))
+          );
+          if (skipped.length > 0) {
+            this.logDebug(
+              'Skipped destructive schema changes (set allowDestructiveSchemaChanges to apply them):',
+              skipped.map((change) => change.description)
+            );
+          }
 
           // Run migrations (must be synchronous within onupgradeneeded)
           if (transaction) {
-            this.runMigrations(transaction, oldVersion, newVersion);
+            const run: MigrationRun = {
+              fromVersion: oldVersion,
+              toVersion: newVersion,
+              applied: [],
+              settled: [],
+              backup,
+              startTime: Date.now(),
+              error: null,
+              // Creating the database is not a migration
+              recorded: oldVersion === 0,
+            };
+            this._migrationRun = run;
+            this.runMigrations(run, transaction, oldVersion, newVersion);
+
+            // Without async steps the upgrade has ended, so it is recorded in its own transaction
+            if (run.settled.length === 0 && !run.recorded) {
+              appendMigrationHistory(transaction, [this.historyEntry(run, null)]);
+              run.recorded = true;
+            }
+
+            // An async migration failing while the upgrade is still running aborts it
+            let committed = false;
+            transaction.addEventListener('complete', () => {
+              committed = true;
+            });
+            for (const settled of run.settled) {
+              void settled.then((error) => {
+                if (error && !committed) {
+                  abortUpgrade(error);
+                }
+              });
+            }
+
+            if (Object.keys(this.dataMigrations).length > 0) {
+              markDataMigrations(transaction, oldVersion, newVersion);
+            }
+            if (this.autoVersion) {
+              markSchemaState(transaction, { hash: hashSchema(this.schema.stores), version: newVersion });
+            }
           }
         } catch (error) {
           // If migration fails, abort the upgrade
-          if (error instanceof Error) {
+          abandoned = true;
+          try {
+            transaction?.abort();
+          } catch {
+            // Already finished
+          }
+          // Browsers close the connection of an aborted upgrade, but not every implementation does
+          db.close();
+          if (error instanceof MigrationError) {
+            reject(error);
+          } else if (error instanceof Error) {
             reject(
               new MigrationError(
                 oldVersion,
@@ -185,12 +580,47 @@ export class Database {
     });
   }
 
+  /**
+   * Apply the version change policy when another tab upgrades or deletes the database
+   */
+  private handleVersionChange(connection: IDBDatabase, event: IDBVersionChangeEvent): void {
+    const closed = this.versionChangePolicy === 'close';
+    if (closed) {
+      if (this._db === connection) {
+        this.close();
+      } else {
+        connection.close();
+      }
+    }
+
+    this.logDebug(
+      `Another tab requested version ${event.newVersion ?? 'deletion'}; connection ${closed ? 'closed' : 'kept open'}`
+    );
+    this.events.emit('versionchange', { oldVersion: event.oldVersion, newVersion: event.newVersion, closed });
+  }
+
+  /**
+   * Forget a connection the browser closed on its own (e.g. storage was cleared)
+   */
+  private handleUnexpectedClose(connection: IDBDatabase): void {
+    if (this._db !== connection) {
+      return;
+    }
+
+    this._changeFeed?.stop();
+    this._db = null;
+    this.logDebug('Connection closed unexpectedly; it will be reopened on next use');
+    this.events.emit('unexpectedClose');
+  }
+
   /**
    * Run migrations for version changes
-   * Note: Migrations must be synchronous. Async migrations are not supported
-   * within onupgradeneeded. For async operations, perform them after the upgrade completes.
+   * Migrations run synchronously within onupgradeneeded; one that returns a promise
+   * may only await requests on `transaction` (use `dataMigrations` for other async
+   * work), and its outcome is tracked in `run`. When a migration throws, the error
+   * is rethrown; the caller aborts `transaction` and calls the rollbacks afterwards.
    */
-  private runMigrations(transaction: IDBTransaction, oldVersion: number, newVersion: number): void {
+  private runMigrations(run: MigrationRun, transaction: IDBTransaction, oldVersion: number, newVersion: number): void {
     if (oldVersion === 0) {
       // Initial creation, no migrations needed
       return;
@@ -199,36 +629,337 @@ export class Database {
     // Run migrations in order
     for (let version = oldVersion + 1; version <= newVersion; version++) {
       const migration = this.migrations[version];
-      if (migration) {
-        if (this.debug) {
-          console.log(`[NitroIDB] Running migration from ${version - 1} to ${version}`);
-        }
+      if (!migration) {
+        continue;
+      }
 
-        try {
-          const db = transaction.db;
-          const result = migration(transaction, db);
-          
-          // Note: Migrations should be synchronous. If a migration returns a promise,
-          // it will be ignored. For async operations, perform them after upgrade completes.
-          if (result instanceof Promise) {
-            console.warn(
-              `[NitroIDB] Migration ${version} returned a promise, but async migrations are not supported during upgrade. ` +
-              `Perform async operations after the database opens.`
-            );
+      this.logDebug(
+        `Running migration from ${version - 1} to ${version}${migration.description ? `: ${migration.description}` : ''}`
+      );
+
+      const step = { fromVersion: version - 1, toVersion: version, description: migration.description };
+      const startTime = Date.now();
+      this.events.emit('migration:start', step);
+
+      const succeed = (): null => {
+        const duration = Date.now() - startTime;
+        this.events.emit('migration:end', { ...step, success: true, duration });
+        return null;
+      };
+      const fail = (error: unknown): MigrationError => {
+        const migrationError = new MigrationError(
+          version - 1,
+          version,
+          error instanceof Error ? error.message : 'Unknown migration error',
+          {
+            browserInfo: this.browserInfo,
+            migrationStep: migration.description ?? `Migration ${version}`,
           }
-        } catch (error) {
-          throw new MigrationError(
-            version - 1,
-            version,
-            error instanceof Error ? error.message : 'Unknown migration error',
-            {
-              browserInfo: this.browserInfo,
-              migrationStep: `Migration ${version}`,
-            }
-          );
+        );
+        const duration = Date.now() - startTime;
+        run.error ??= migrationError;
+        this.events.emit('migration:end', { ...step, success: false, duration, error: migrationError });
+        return migrationError;
+      };
+
+      run.applied.push(migration);
+      let result: void | Promise<void>;
+      try {
+        result = migration.migrate(transaction, transaction.db);
+      } catch (error) {
+        throw fail(error);
+      }
+
+      if (result instanceof Promise) {
+        run.settled.push(result.then(succeed, fail));
+      } else {
+        succeed();
+      }
+    }
+  }
+
+  /**
+   * History entry for a whole migration run, from its first version to its last
+   */
+  private historyEntry(run: MigrationRun, error: Error | null): MigrationHistoryEntry {
+    const descriptions = run.applied.flatMap((migration) => migration.description ?? []);
+    return {
+      fromVersion: run.fromVersion,
+      toVersion: run.toVersion,
+      timestamp: Date.now(),
+      success: error === null,
+      ...(error && { error: error.message }),
+      ...(descriptions.length > 0 && { description: descriptions.join('; ') }),
+      duration: Date.now() - run.startTime,
+    };
+  }
+
+  /**
+   * Call the rollbacks of migrations, newest first, in a new transaction on every
+   * store of `connection`, once their own writes were undone or restored
+   * Rollback failures are logged; the original migration error is what gets reported.
+   */
+  private async rollbackMigrations(connection: IDBDatabase, migrations: Migration[]): Promise<void> {
+    const rollbacks = migrations.filter((migration) => migration.rollback);
+    if (rollbacks.length === 0) {
+      return;
+    }
+
+    const transaction = connection.transaction(Array.from(connection.objectStoreNames), 'readwrite');
+    const finished = new Promise<void>((resolve) => {
+      transaction.addEventListener('complete', () => resolve());
+      transaction.addEventListener('abort', () => resolve());
+    });
+    const pending: Promise<void>[] = [];
+    const logFailure = (migration: Migration, error: unknown): void => {
+      this.logDebug(`Rollback of migration ${migration.version} failed:`, error);
+    };
+
+    for (const migration of rollbacks.reverse()) {
+      try {
+        // Synchronous rollbacks run back to back so the transaction stays active
+        const result = migration.rollback?.(transaction, connection);
+        if (result instanceof Promise) {
+          pending.push(result.catch((error: unknown) => logFailure(migration, error)));
         }
+      } catch (error) {
+        logFailure(migration, error);
       }
     }
+    await Promise.all(pending);
+    await finished;
+  }
+
+  /**
+   * Snapshot the stores before an upgrade that runs a migration with `requiresBackup`
+   * Nothing is snapshotted for a new database.
+   */
+  private async backupBeforeUpgrade(): Promise<Record<string, unknown[]> | null> {
+    const versions = Object.values(this.migrations)
+      .filter((migration) => migration.requiresBackup)
+      .map((migration) => migration.version);
+    if (versions.length === 0) {
+      return null;
+    }
+
+    let connection: IDBDatabase | null = null;
+    try {
+      connection = await this.openCurrentVersion();
+      const current = this._autoVersion?.fromVersion ?? connection?.version ?? 0;
+      if (!connection || !versions.some((version) => version > current && version <= this.schema.version)) {
+        return null;
+      }
+
+      const backup = await createBackup(this, connection);
+      this.logDebug(`Backup of version ${current} created with ${Object.keys(backup).length} stores`);
+      return backup;
+    } catch (error) {
+      const failure = new MigrationError(
+        connection?.version ?? 0,
+        this.schema.version,
+        `Backup before migration failed: ${error instanceof Error ? error.message : String(error)}`,
+        { browserInfo: this.browserInfo }
+      );
+      throw this.reportError(failure, { source: 'migration' });
+    } finally {
+      connection?.close();
+    }
+  }
+
+  /**
+   * Open the database at its current version, or resolve to null when it does not
+   * exist yet (the open that would create it is aborted)
+   * Timeouts are retried like the main open request.
+   */
+  private openCurrentVersion(): Promise<IDBDatabase | null> {
+    return this.retryOpenTimeouts((attempt) => this.requestCurrentVersion(attempt));
+  }
+
+  /**
+   * Send one open request for the current version, failing with OpenTimeoutError
+   * when no event arrives within `openTimeout`
+   */
+  private requestCurrentVersion(attempt: number): Promise<IDBDatabase | null> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.schema.name);
+      let abandoned = false;
+
+      let openTimer: ReturnType<typeof setTimeout> | null = null;
+      if (this.openTimeout > 0) {
+        openTimer = setTimeout(() => {
+          abandoned = true;
+          reject(new OpenTimeoutError(this.openTimeout, attempt, { browserInfo: this.browserInfo }));
+        }, this.openTimeout);
+      }
+      const stopOpenTimer = (): void => {
+        if (openTimer) {
+          clearTimeout(openTimer);
+          openTimer = null;
+        }
+      };
+
+      request.onupgradeneeded = (): void => {
+        request.transaction?.abort();
+        // Closed by hand too, or the aborted connection can block the next open
+        request.result.close();
+      };
+      request.onsuccess = (): void => {
+        stopOpenTimer();
+        if (abandoned) {
+          request.result.close();
+          return;
+        }
+        resolve(request.result);
+      };
+      request.onerror = (): void => {
+        stopOpenTimer();
+        if (request.error?.name === 'AbortError') {
+          resolve(null);
+        } else {
+          reject(request.error ?? new Error('Failed to open database'));
+        }
+      };
+    });
+  }
+
+  /**
+   * After an aborted upgrade, record a failed migration in the history of the
+   * version that stayed in place and call the rollbacks of the migrations it started
+   */
+  private async recoverAbortedUpgrade(): Promise<void> {
+    const run = this._migrationRun;
+    this._migrationRun = null;
+    if (!run || (!run.error && run.applied.length === 0)) {
+      return;
+    }
+
+    try {
+      const connection = await this.openCurrentVersion();
+      if (!connection) {
+        return;
+      }
+      try {
+        if (run.error && connection.objectStoreNames.contains('__kv__')) {
+          const transaction = connection.transaction('__kv__', 'readwrite');
+          appendMigrationHistory(transaction, [this.historyEntry(run, run.error)]);
+          await new Promise<void>((resolve) => {
+            transaction.oncomplete = (): void => resolve();
+            transaction.onabort = (): void => resolve();
+          });
+        }
+        await this.rollbackMigrations(connection, run.applied);
+      } finally {
+        connection.close();
+      }
+    } catch (error) {
+      this.logDebug('Failed to recover from an aborted upgrade:', error);
+    }
+  }
+
+  /**
+   * Wait for the async migrations of the upgrade that just ran
+   */
+  private async finishMigrations(connection: IDBDatabase): Promise<IDBDatabase> {
+    const run = this._migrationRun;
+    this._migrationRun = null;
+    if (!run) {
+      return connection;
+    }
+
+    const errors = await Promise.all(run.settled);
+    return this.settleMigrations(connection, run, errors.find((settled) => settled !== null) ?? null, true);
+  }
+
+  /**
+   * Run the migrations of an upgrade that failed after it committed again, in one
+   * transaction on every store (the version is already in place, so no upgrade runs them)
+   */
+  private async retryFailedMigrations(connection: IDBDatabase): Promise<IDBDatabase> {
+    const view = this.migrationView(connection);
+    const failed = await getFailedMigration(view);
+    if (!failed) {
+      return connection;
+    }
+
+    const { fromVersion, toVersion } = failed;
+    const needsBackup = Object.values(this.migrations).some(
+      (migration) => migration.requiresBackup && migration.version > fromVersion && migration.version <= toVersion
+    );
+    const run: MigrationRun = {
+      fromVersion,
+      toVersion,
+      applied: [],
+      settled: [],
+      backup: needsBackup ? await createBackup(view, connection) : null,
+      startTime: Date.now(),
+      error: null,
+      recorded: false,
+    };
+
+    const transaction = connection.transaction(Array.from(connection.objectStoreNames), 'readwrite');
+    const committed = new Promise<boolean>((resolve) => {
+      transaction.addEventListener('complete', () => resolve(true));
+      transaction.addEventListener('abort', () => resolve(false));
+    });
+
+    let error: Error | null = null;
+    try {
+      this.runMigrations(run, transaction, fromVersion, toVersion);
+    } catch (failure) {
+      error = failure instanceof Error ? failure : new Error(String(failure));
+    }
+    if (!error) {
+      const errors = await Promise.all(run.settled);
+      error = errors.find((settled) => settled !== null) ?? null;
+    }
+    if (error) {
+      try {
+        transaction.abort();
+      } catch {
+        // Already committed while an async migration kept running
+      }
+    }
+
+    await this.settleMigrations(connection, run, error, await committed);
+    await saveFailedMigration(view, null);
+    return connection;
+  }
+
+  /**
+   * Record the history entry of a run that ended after its transaction
+   * When a migration failed, the snapshot taken before them is restored (if their writes
+   * committed), the rollbacks are called in a new transaction and the versions are
+   * kept for the next `open()` to run them again; the connection is then closed and
+   * the error thrown.
+   */
+  private async settleMigrations(
+    connection: IDBDatabase,
+    run: MigrationRun,
+    error: Error | null,
+    committed: boolean
+  ): Promise<IDBDatabase> {
+    const view = this.migrationView(connection);
+    if (!run.recorded) {
+      await saveMigrationHistory(view, this.historyEntry(run, error)).catch((historyError: unknown) => {
+        this.logDebug('Failed to record migration history:', historyError);
+      });
+    }
+    if (!error) {
+      return connection;
+    }
+
+    try {
+      if (committed && run.backup) {
+        await restoreBackup(view, run.backup);
+      }
+      await this.rollbackMigrations(connection, run.applied);
+      await saveFailedMigration(view, { fromVersion: run.fromVersion, toVersion: run.toVersion });
+    } catch (recoveryError) {
+      this.logDebug('Failed to recover from a failed migration:', recoveryError);
+    }
+
+    connection.close();
+    throw this.reportError(error, { source: 'migration' });
   }
 
   /**
@@ -245,9 +976,11 @@ export class Database {
    * Close the database
    */
   close(): void {
+    this._changeFeed?.stop();
     if (this._db) {
       this._db.close();
       this._db = null;
+      this.events.emit('close');
     }
   }
 
@@ -258,6 +991,13 @@ export class Database {
     return this._db !== null;
   }
 
+  /**
+   * Check if a pending upgrade is waiting for other tabs to close their connections
+   */
+  isUpgradeBlocked(): boolean {
+    return this._upgradeBlocked;
+  }
+
   /**
    * Get database name
    */
@@ -291,22 +1031,26 @@ export class Database {
 
   /**
    * Get a table instance for a store
+   * Typed from the table map for declared stores; an untyped database takes the
+   * record and key types as type arguments instead.
    */
-  table<T = unknown>(storeName: string): Table<T> {
+  table<K extends StoreName<TTables>>(storeName: K): Table<TTables[K], TKeys[K]>;
+  table<T = unknown, TKey extends IDBValidKey = IDBValidKey>(storeName: StoreName<TTables>): Table<T, TKey>;
+  table(storeName: string): Table {
     // Validate store exists in schema
     if (!this.schema.stores[storeName]) {
       throw new Error(`Store "${storeName}" does not exist in schema`);
     }
-    return new Table<T>(this, storeName);
+    return new Table(this, storeName);
   }
 
   /**
    * Get transaction manager
    */
-  get transaction(): TransactionManager {
+  get transaction(): TransactionManager<TTables, TKeys> {
     if (!this._transactionManager) {
       const quirks = this.getQuirks();
-      this._transactionManager = new TransactionManager(this, {
+      this._transactionManager = new TransactionManager<TTables, TKeys>(this, {
         defaultTimeout: quirks.recommendedTimeout,
         defaultRetries: 0,
         defaultRetryDelay: quirks.safariQuirks ? 200 : 100,
@@ -315,6 +1059,38 @@ export class Database {
     return this._transactionManager;
   }
 
+  /**
+   * Options for a new transaction: the durability hint of a write, resolved from
+   * `durability` or the declared one, and dropped where the browser does not support it
+   * (internal use by TransactionManager and store handles)
+   */
+  getTransactionOptions(
+    storeNames: string[],
+    mode: TransactionMode,
+    durability?: TransactionDurability
+  ): IDBTransactionOptions | undefined {
+    if (mode !== 'readwrite' || !this.getQuirks().supportsDurability) {
+      return undefined;
+    }
+
+    const resolved = durability ?? this.declaredDurability(storeNames) ?? 'default';
+    return resolved === 'default' ? undefined : { durability: resolved };
+  }
+
+  /**
+   * Durability hint declared for writes to `storeNames`: the stores' definitions
+   * (when they agree), else the database's, or undefined if neither sets one
+   * (internal use by getTransactionOptions() and BulkWriteEngine)
+   */
+  declaredDurability(storeNames: string[]): TransactionDurability | undefined {
+    const declared = new Set(storeNames.map((name) => this.schema.stores[name]?.durability));
+    const [storeDurability] = declared;
+    if (declared.size === 1 && storeDurability) {
+      return storeDurability;
+    }
+    return this.durability === 'default' ? undefined : this.durability;
+  }
+
   /**
    * Get detected browser quirks
    */
@@ -325,6 +1101,84 @@ export class Database {
     return this._quirks;
   }
 
+  /**
+   * Get the change tracker (internal use by tables, KV, bulk writes and transactions)
+   */
+  getChangeTracker(): ChangeTracker {
+    if (!this._changeTracker) {
+      this._changeTracker = new ChangeTracker();
+      this._changeTracker.subscribe((changes, remote) => {
+        changes.forEach((change) => this.events.emit('change', { ...change, remote }));
+      });
+    }
+    return this._changeTracker;
+  }
+
+  /**
+   * Get the cross-tab change relay
+   */
+  private getChangeFeed(): ChangeFeed {
+    if (!this._changeFeed) {
+      this._changeFeed = new ChangeFeed(this.schema.name, this.getChangeTracker(), (message, ...details) =>
+        this.logDebug(message, ...details)
+      );
+    }
+    return this._changeFeed;
+  }
+
+  /**
+   * Listen for a database event; returns a function that removes the listener
+   * `change` fires for every committed write, including writes from other tabs.
+   */
+  on<K extends keyof DatabaseEvents>(event: K, listener: DatabaseEvents[K]): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Remove a database event listener
+   */
+  off<K extends keyof DatabaseEvents>(event: K, listener: DatabaseEvents[K]): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Emit a database event (internal use by subsystems)
+   */
+  emit<K extends keyof DatabaseEvents>(event: K, ...args: Parameters<DatabaseEvents[K]>): void {
+    this.events.emit(event, ...args);
+  }
+
+  /**
+   * Emit `error` (and `quotaWarning` for quota errors) for an error about to be
+   * thrown by a subsystem; returns the error for `throw`/`reject`
+   */
+  reportError<E extends Error>(error: E, details: Omit<DatabaseErrorEvent, 'error'>): E {
+    this.events.emit('error', { error, ...details });
+    if (error instanceof QuotaExceededError) {
+      this.events.emit('quotaWarning', { source: details.source, error });
+    }
+    return error;
+  }
+
+  /**
+   * Log a diagnostic message in debug mode
+   */
+  logDebug(message: string, ...details: unknown[]): void {
+    if (this.debug) {
+      console.warn(`[NitroIDB] ${message}`, ...details);
+    }
+  }
+
+  /**
+   * Create a live query that re-runs `querier` whenever a committed write touches
+   * a store or primary key range it read
+   */
+  liveQuery<R>(querier: () => Promise<R>, options?: LiveQueryOptions): LiveQuery<R> {
+    return new LiveQuery(this.getChangeTracker(), querier, options, (error) => {
+      this.reportError(error, { source: 'query', operation: 'liveQuery' });
+    });
+  }
+
   /**
    * Check ephemeral storage (async)
    */
@@ -344,6 +1198,7 @@ export class Database {
 
     const timestamp = Date.now();
     const connected = this.isOpen();
+    const upgradeBlocked = this.isUpgradeBlocked();
 
     // Get storage quota information
     const storage = checkQuota ? await getStorageQuota() : {
@@ -352,9 +1207,12 @@ export class Database {
 
     // Calculate eviction risk
     const evictionRisk = calculateEvictionRisk(storage, this.browserInfo);
+    if (evictionRisk === 'high' || evictionRisk === 'critical') {
+      this.events.emit('quotaWarning', { source: 'health', usagePercent: storage.usagePercent, evictionRisk });
+    }
 
-    // Run connectivity tests
-    const tests = runTests
+    // Run connectivity tests (opening would only wait on the blocked upgrade)
+    const tests = runTests && !upgradeBlocked
       ? await runConnectivityTests(this, testDataSize)
       : {
           canOpen: connected,
@@ -367,13 +1225,14 @@ export class Database {
     const status = determineHealthStatus(connected, tests, evictionRisk);
 
     // Collect issues
-    const issues = collectIssues(connected, tests, storage, evictionRisk, this.browserInfo);
+    const issues = collectIssues(connected, tests, storage, evictionRisk, this.browserInfo, upgradeBlocked);
 
     // Generate recommendations
     const partialResult: Omit<HealthCheckResult, 'recommendations'> = {
       status,
       timestamp,
       connected,
+      upgradeBlocked,
       storage,
       evictionRisk,
       issues,
@@ -389,6 +1248,24 @@ export class Database {
     };
   }
 
+  /**
+   * Compare the live stores and indexes with the declared schema
+   * Lists what the next upgrade changes; once open, only the destructive changes
+   * skipped without `allowDestructiveSchemaChanges` remain.
+   */
+  async schemaDiff(): Promise<SchemaChange[]> {
+    const connection = this._db ?? (await this.openCurrentVersion());
+    try {
+      const storeNames = Array.from(connection?.objectStoreNames ?? []);
+      const transaction = connection && storeNames.length > 0 ? connection.transaction(storeNames, 'readonly') : null;
+      return diffSchema(connection, this.schema.stores, transaction);
+    } finally {
+      if (connection !== this._db) {
+        connection?.close();
+      }
+    }
+  }
+
   /**
    * Get migration history
    */
@@ -396,11 +1273,22 @@ export class Database {
     return getMigrationHistory(this);
   }
 
+  /**
+   * Logical version in place (the one `migrations` are keyed by), 0 when not open
+   * With `autoVersion` it differs from the IndexedDB version of the connection.
+   */
+  private logicalVersion(): number {
+    if (!this._db) {
+      return 0;
+    }
+    return this._autoVersion?.toVersion ?? this._db.version;
+  }
+
   /**
    * Check if migrations are needed
    */
   needsMigration(targetVersion?: number): boolean {
-    const currentVersion = this._db?.version ?? 0;
+    const currentVersion = this.logicalVersion();
     const target = targetVersion ?? this.schema.version;
     return needsMigration(this.migrations, currentVersion, target);
   }
@@ -416,7 +1304,7 @@ export class Database {
       await this.open();
     }
 
-    const currentVersion = this._db?.version ?? 0;
+    const currentVersion = this.logicalVersion();
     const targetVersion = this.schema.version;
 
     if (currentVersion >= targetVersion) {
@@ -505,3 +1393,10 @@ export class Database {
   }
 }
 
+/**
+ * Database typed by a table map and the store definitions its key types are derived from
+ */
+export type TypedDatabase<
+  TTables extends TableMap = TableMap,
+  TStores extends StoreDefinitions<TTables> = StoreDefinitions<TTables>,
+> = Database<TTables, StoreKeys<TTables, TStores>>;
@@ -1,5 +1,6 @@
-import type { DatabaseOptions } from '../types/schema.js';
+import type { DatabaseOptions, TableMap, StoreDefinitions } from '../types/schema.js';
 import { Database } from './database.js';
+import type { TypedDatabase } from './database.js';
 
 /**
  * Create a new NitroIDB database instance
@@ -16,10 +17,37 @@ import { Database } from './database.js';
  * 
  * await db.open();
  * ```
+ *
+ * Pass a map of store names to record types to get typed tables. Called
+ * without options, `createDB<Tables>()` returns a factory that also infers the
+ * store definitions, so each table is keyed by its declared primary key:
+ *
+ * @example
+ * ```ts
+ * const db = createDB<{ users: User }>()({
+ *   name: 'myapp',
+ *   version: 1,
+ *   stores: {
+ *     users: { primaryKey: 'id' },
+ *   },
+ * });
+ *
+ * const users = db.table('users'); // Table<User, string>
+ * ```
  */
-export function createDB(options: DatabaseOptions): Database {
+export function createDB<TTables extends TableMap>(): <TStores extends StoreDefinitions<TTables>>(
+  options: DatabaseOptions<TTables, TStores>
+) => TypedDatabase<TTables, TStores>;
+export function createDB<
+  TTables extends TableMap = TableMap,
+  TStores extends StoreDefinitions<TTables> = StoreDefinitions<TTables>,
+>(options: DatabaseOptions<TTables, TStores>): TypedDatabase<TTables, TStores>;
+export function createDB(options?: DatabaseOptions): Database | ((options: DatabaseOptions) => Database) {
+  if (!options) {
+    return (options: DatabaseOptions) => new Database(options);
+  }
   return new Database(options);
 }
 
 export { Database } from './database.js';
-
+export type { TypedDatabase } from './database.js';
@@ -0,0 +1,52 @@
+import { NitroIDBError } from './base.js';
+import type { BrowserInfo } from '../types/browser.js';
+
+/**
+ * Error thrown when a write to a versioned store expected a version that is no
+ * longer current (another tab or request changed or deleted the record first)
+ */
+export class ConflictError<T = unknown> extends NitroIDBError {
+  /** Record as currently stored (undefined when it was deleted) */
+  readonly current: T | undefined;
+  /** Record the write tried to store */
+  readonly attempted: T;
+  /** Version the write expected */
+  readonly expectedVersion: number;
+  /** Version currently stored (0 when the record is missing) */
+  readonly currentVersion: number;
+
+  constructor(
+    options: {
+      storeName: string;
+      key: IDBValidKey;
+      current: T | undefined;
+      attempted: T;
+      expectedVersion: number;
+      currentVersion: number;
+      browserInfo?: BrowserInfo;
+    }
+  ) {
+    const found = options.current === undefined ? 'the record was deleted' : `found version ${options.currentVersion}`;
+    const message = `Version conflict on "${options.storeName}" record "${String(options.key)}": expected version ${options.expectedVersion}, ${found}`;
+    super(message, 'CONFLICT', {
+      browserInfo: options.browserInfo,
+      context: {
+        storeName: options.storeName,
+        key: options.key,
+        expectedVersion: options.expectedVersion,
+        currentVersion: options.currentVersion,
+      },
+    });
+    this.current = options.current;
+    this.attempted = options.attempted;
+    this.expectedVersion = options.expectedVersion;
+    this.currentVersion = options.currentVersion;
+  }
+
+  override getRecommendation(): string {
+    return `The record changed since it was read. Try:
+- Merging error.attempted into error.current and writing again with its version
+- Showing both versions to the user to resolve the edit
+- Re-reading the record before retrying`;
+  }
+}
@@ -0,0 +1,31 @@
+import { NitroIDBError } from './base.js';
+import type { BrowserInfo } from '../types/browser.js';
+
+/**
+ * Error thrown when opening the database never completes
+ */
+export class OpenTimeoutError extends NitroIDBError {
+  constructor(
+    timeout: number,
+    attempts: number,
+    options?: {
+      browserInfo?: BrowserInfo;
+    }
+  ) {
+    const message = `Opening the database timed out after ${timeout}ms (${attempts} attempt${attempts === 1 ? '' : 's'})`;
+    super(message, 'OPEN_TIMEOUT', {
+      browserInfo: options?.browserInfo,
+      context: {
+        timeout,
+        attempts,
+      },
+    });
+  }
+
+  override getRecommendation(): string {
+    return `The open request never fired success or error (a known iOS Safari issue). Try:
+- Reopening the database (recoverFromError uses the 'reopen' strategy)
+- Reloading the page, or closing and reopening the tab
+- Increasing openTimeout or openRetries if opening is just slow`;
+  }
+}
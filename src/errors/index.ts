@@ -4,4 +4,6 @@ export * from './storage.js';
 export * from './migration.js';
 export * from './browser.js';
 export * from './corruption.js';
+export * from './connection.js';
 
+export * from './conflict.js';
@@ -67,3 +67,35 @@ Recommendation:
   }
 }
 
+
+/**
+ * Error thrown when an upgrade stays blocked by connections open in other tabs
+ */
+export class UpgradeBlockedError extends NitroIDBError {
+  constructor(
+    currentVersion: number,
+    requestedVersion: number,
+    timeout: number,
+    options?: {
+      browserInfo?: BrowserInfo;
+    }
+  ) {
+    const message = `Upgrade from version ${currentVersion} to ${requestedVersion} was blocked by other open connections for ${timeout}ms`;
+    super(message, 'UPGRADE_BLOCKED', {
+      browserInfo: options?.browserInfo,
+      context: {
+        currentVersion,
+        requestedVersion,
+        timeout,
+      },
+    });
+  }
+
+  override getRecommendation(): string {
+    return `Another tab still holds a connection to the old database version.
+Recommendation:
+- Ask the user to close or reload other tabs of this app
+- Keep the default versionChangePolicy ('close') so old tabs release their connection
+- Listen for the 'versionchange' event to prompt old tabs to reload`;
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { TransactionTimeoutError, TransactionAbortedError } from './transaction.js';
+import { TransactionTimeoutError, TransactionAbortedError, TransactionInactiveError } from './transaction.js';
 
 
 describe('TransactionTimeoutError', () => {
@@ -42,3 +42,28 @@ describe('TransactionAbortedError', () => {
   });
 });
 
+
+describe('TransactionInactiveError', () => {
+  it('should name the operation after which the transaction auto-committed', () => {
+    const error = new TransactionInactiveError({
+      operation: 'users.get',
+      lastOperation: 'users.put',
+      autoCommitted: true,
+    });
+    expect(error.code).toBe('TRANSACTION_INACTIVE');
+    expect(error.message).toContain('"users.get"');
+    expect(error.message).toContain('after "users.put"');
+    expect(error.context?.autoCommitted).toBe(true);
+  });
+
+  it('should create error for a finished transaction', () => {
+    const error = new TransactionInactiveError({ operation: 'users.get' });
+    expect(error.message).toContain('no longer active');
+    expect(error.context?.autoCommitted).toBe(false);
+  });
+
+  it('should provide recommendation', () => {
+    const error = new TransactionInactiveError();
+    expect(error.getRecommendation()).toContain('await');
+  });
+});
@@ -63,3 +63,45 @@ Check the error cause for more details.`;
   }
 }
 
+
+/**
+ * Error thrown when a request is made on a transaction that already committed or aborted
+ */
+export class TransactionInactiveError extends NitroIDBError {
+  constructor(
+    options?: {
+      browserInfo?: BrowserInfo;
+      storeNames?: string[];
+      /** Operation that could not run, e.g. `users.get` */
+      operation?: string;
+      /** Last operation that ran before the transaction committed */
+      lastOperation?: string;
+      /** The transaction committed while its callback was still running */
+      autoCommitted?: boolean;
+    }
+  ) {
+    const operation = options?.operation ? `"${options.operation}"` : 'the next request';
+    const message = options?.autoCommitted
+      ? `Transaction committed before ${operation} could run: the callback awaited something that is not an IndexedDB request` +
+        (options.lastOperation ? ` after "${options.lastOperation}"` : '')
+      : `Transaction is no longer active, ${operation} cannot run`;
+    super(message, 'TRANSACTION_INACTIVE', {
+      browserInfo: options?.browserInfo,
+      context: {
+        storeNames: options?.storeNames,
+        operation: options?.operation,
+        lastOperation: options?.lastOperation,
+        autoCommitted: options?.autoCommitted ?? false,
+      },
+    });
+  }
+
+  override getRecommendation(): string {
+    return `IndexedDB commits a transaction as soon as no request is pending, so awaiting
+fetch(), timers, crypto or any other non-IndexedDB promise inside a transaction
+callback ends the transaction. Try:
+- Doing that work before or after the transaction
+- Splitting the work into two transactions
+- Enabling debug mode to log a stack trace when a transaction commits early`;
+  }
+}
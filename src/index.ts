@@ -6,7 +6,7 @@
 // Export types
 export * from './types/index.js';
 export type { HealthCheckResult, HealthStatus, StorageQuota, EvictionRisk, HealthCheckOptions } from './types/health.js';
-export type { Migration, MigrationResult, MigrationHistoryEntry, MigrationOptions } from './types/migration.js';
+export type { Migration, MigrationResult, MigrationHistoryEntry, MigrationOptions, MigrationDefinition, MigrationFunction, DataMigration, DataMigrationContext } from './types/migration.js';
 export type { DatabaseDiagnostics, StoreInspection, ErrorRecoveryStrategy, ErrorRecoveryOptions, ErrorRecoveryResult } from './types/diagnostics.js';
 
 // Export errors
@@ -19,15 +19,36 @@ export type { BrowserQuirks } from './utils/quirks.js';
 
 // Export database creation
 export { createDB, Database } from './database/index.js';
+export type { TypedDatabase } from './database/index.js';
 
 // Export KV store
 export { KVStore } from './kv/index.js';
 
 // Export Table API
 export { Table, Query, QueryWhere, BulkWriteEngine } from './table/index.js';
-export type { BulkWriteOptions, BulkWriteResult } from './table/index.js';
+export type { BulkWriteOptions, BulkWriteResult, UpdateOptions, Modifier } from './table/index.js';
 
 // Export Transaction API
 export { TransactionManager } from './transaction/index.js';
-export type { TransactionMode, TransactionOptions, TransactionContext, TransactionCallback } from './types/transaction.js';
-
+export type { TransactionMode, TransactionDurability, TransactionOptions, TransactionContext, TransactionCallback } from './types/transaction.js';
+
+
+// Export live queries
+export { LiveQuery, ChangeTracker, ChangeFeed } from './live/index.js';
+export type { StoreChange, ChangeType, LiveQueryOptions, LiveQuerySubscription } from './types/live.js';
+export type {
+  DatabaseEvents,
+  DatabaseChangeEvent,
+  VersionChangeEvent,
+  UpgradeBlockedEvent,
+  DatabaseOpenEvent,
+  DatabaseUpgradeEvent,
+  MigrationStartEvent,
+  MigrationEndEvent,
+  DatabaseErrorEvent,
+  ErrorSource,
+  QuotaWarningEvent,
+} from './types/events.js';
+
+// Export event emitter
+export { EventEmitter } from './utils/events.js';
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { createDB } from '../database/index.js';
 import { KVStore } from '../kv/index.js';
+import { openTestDB } from '../../tests/helpers.js';
 
 describe('KVStore', () => {
   const testDBName = 'test-kv-' + Date.now();
@@ -34,10 +35,6 @@ describe('KVStore', () => {
   });
 
   it('should create KV store', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -52,10 +49,6 @@ describe('KVStore', () => {
   });
 
   it('should set and get values', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -77,11 +70,24 @@ describe('KVStore', () => {
     db.close();
   });
 
-  it('should return undefined for non-existent keys', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
+  it('should resolve get() to the stored value, not the record it is stored in', async () => {
+    const db = createDB({
+      name: testDBName,
+      version: 1,
+      stores: {
+        users: { primaryKey: 'id' },
+      },
+    });
+
+    await db.open();
 
+    await db.kv.set('prefs', { theme: 'dark' });
+    expect(await db.kv.get('prefs')).toEqual({ theme: 'dark' });
+
+    db.close();
+  });
+
+  it('should return undefined for non-existent keys', async () => {
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -99,10 +105,6 @@ describe('KVStore', () => {
   });
 
   it('should delete values', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -122,10 +124,6 @@ describe('KVStore', () => {
   });
 
   it('should check if key exists', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -144,10 +142,6 @@ describe('KVStore', () => {
   });
 
   it('should get all keys', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -169,10 +163,6 @@ describe('KVStore', () => {
   });
 
   it('should get all values', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -193,10 +183,6 @@ describe('KVStore', () => {
   });
 
   it('should clear all values', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -218,10 +204,6 @@ describe('KVStore', () => {
   });
 
   it('should support namespaces', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -253,10 +235,6 @@ describe('KVStore', () => {
   });
 
   it('should clear only namespaced values', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -279,10 +257,6 @@ describe('KVStore', () => {
   });
 
   it('should support nested namespaces', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -301,5 +275,55 @@ describe('KVStore', () => {
 
     db.close();
   });
-});
 
+  it('should increment counters atomically', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+    });
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => db.kv.increment('visits')));
+    expect(results.sort()).toEqual([1, 2, 3, 4, 5]);
+    expect(await db.kv.increment('visits', -2)).toBe(3);
+
+    await db.kv.set('name', 'nitro');
+    await expect(db.kv.increment('name')).rejects.toThrow('Cannot increment KV value "name": it is not a number');
+
+    db.close();
+  });
+
+  it('should compare and set values atomically', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+    });
+    const flags = db.kv.namespace('flags');
+
+    // Only one of the racing writers wins the missing key
+    const won = await Promise.all([
+      flags.compareAndSet('beta', undefined, 'tab-1'),
+      flags.compareAndSet('beta', undefined, 'tab-2'),
+    ]);
+    expect(won).toEqual([true, false]);
+
+    expect(await flags.compareAndSet('beta', 'tab-2', 'tab-3')).toBe(false);
+    expect(await flags.compareAndSet<string | boolean>('beta', 'tab-1', false)).toBe(true);
+    expect(await flags.values()).toEqual([false]);
+
+    db.close();
+  });
+
+  it('should leave internal keys out of keys(), values() and clear() but not other __name__ keys', async () => {
+    // autoVersion keeps the schema fingerprint under an internal key
+    const db = await openTestDB({ users: { primaryKey: 'id' } }, { autoVersion: true });
+    await db.kv.set('theme', 'dark');
+    await db.kv.set('__session__', 's1');
+
+    expect(await db.kv.keys()).toEqual(['__session__', 'theme']);
+    expect(await db.kv.values()).toEqual(['s1', 'dark']);
+
+    await db.kv.clear();
+    expect(await db.kv.keys()).toEqual([]);
+    expect(await db.kv.has('__schema__')).toBe(true);
+
+    db.close();
+  });
+});
@@ -1,5 +1,21 @@
 import type { Database } from '../database/database.js';
 import { TransactionAbortedError, StorageEvictedError, QuotaExceededError } from '../errors/index.js';
+import { openStoreTransaction } from '../transaction/store-transaction.js';
+import { undoableWrites } from '../transaction/savepoint.js';
+import type { Savepoint } from '../transaction/savepoint.js';
+import type { TransactionMode } from '../types/transaction.js';
+import { MIGRATION_HISTORY_KEY, DATA_MIGRATION_KEY, FAILED_MIGRATION_KEY } from '../utils/migration.js';
+import { SCHEMA_STATE_KEY } from '../utils/schema.js';
+
+/**
+ * Keys NitroIDB keeps its own state under, outside any namespace
+ */
+const INTERNAL_KEYS: ReadonlySet<string> = new Set([
+  MIGRATION_HISTORY_KEY,
+  DATA_MIGRATION_KEY,
+  FAILED_MIGRATION_KEY,
+  SCHEMA_STATE_KEY,
+]);
 
 /**
  * Key-Value store for simple key-value operations
@@ -8,27 +24,40 @@ export class KVStore {
   private readonly db: Database;
   private readonly storeName: string;
   private readonly namespacePrefix: string;
-
-  constructor(db: Database, storeName: string = '__kv__', namespace: string = '') {
+  /** Transaction every operation runs in (set for `ctx.kv`) */
+  private readonly transaction?: IDBTransaction;
+  /** Undo log of the `ctx.savepoint()` scope this handle belongs to */
+  private readonly savepoint: Savepoint | null;
+
+  constructor(
+    db: Database,
+    storeName: string = '__kv__',
+    namespace: string = '',
+    transaction?: IDBTransaction,
+    savepoint: Savepoint | null = null
+  ) {
     this.db = db;
     this.storeName = storeName;
     this.namespacePrefix = namespace;
+    this.transaction = transaction;
+    this.savepoint = savepoint;
   }
 
   /**
    * Get a value by key
    */
   async get<T = unknown>(key: string): Promise<T | undefined> {
-    const db = await this.db.getDB();
+    const transaction = await this.openTransaction('readonly', 'get');
     const fullKey = this.getFullKey(key);
+    this.db.getChangeTracker().trackRead(this.storeName, [IDBKeyRange.only(fullKey)]);
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readonly');
       const store = transaction.objectStore(this.storeName);
       const request = store.get(fullKey);
 
       request.onsuccess = () => {
-        resolve(request.result as T | undefined);
+        const item = request.result as { key: string; value: T } | undefined;
+        resolve(item?.value);
       };
 
       request.onerror = () => {
@@ -46,15 +75,15 @@ export class KVStore {
    * Set a value by key
    */
   async set<T = unknown>(key: string, value: T): Promise<void> {
-    const db = await this.db.getDB();
+    const transaction = await this.openTransaction('readwrite', 'set');
     const fullKey = this.getFullKey(key);
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readwrite');
       const store = transaction.objectStore(this.storeName);
-      const request = store.put({ key: fullKey, value });
+      const request = undoableWrites(store, this.savepoint).put({ key: fullKey, value });
 
       request.onsuccess = () => {
+        this.db.getChangeTracker().trackWrite(transaction, [{ store: this.storeName, type: 'put', keys: [fullKey] }]);
         resolve();
       };
 
@@ -69,19 +98,52 @@ export class KVStore {
     });
   }
 
+  /**
+   * Add `by` to a numeric value (a missing key counts as 0) in one transaction
+   * and resolve to the new value
+   */
+  async increment(key: string, by: number = 1): Promise<number> {
+    if (!Number.isFinite(by)) {
+      throw new Error('Increment must be a finite number');
+    }
+
+    let next = 0;
+    await this.readModifyWrite(key, 'increment', (current) => {
+      if (current !== undefined && typeof current !== 'number') {
+        throw new Error(`Cannot increment KV value "${key}": it is not a number`);
+      }
+      next = (current ?? 0) + by;
+      return { write: true, value: next };
+    });
+    return next;
+  }
+
+  /**
+   * Set a value only if the stored one is still `expected`, in one transaction
+   * Values are compared with `Object.is()`, so this suits primitives such as flags
+   * and counters; pass `undefined` to set a key only when it is missing.
+   * Resolves to whether the value was set.
+   */
+  async compareAndSet<T = unknown>(key: string, expected: T | undefined, next: T): Promise<boolean> {
+    return this.readModifyWrite(key, 'compareAndSet', (current) => ({
+      write: Object.is(current, expected),
+      value: next,
+    }));
+  }
+
   /**
    * Delete a value by key
    */
   async delete(key: string): Promise<void> {
-    const db = await this.db.getDB();
+    const transaction = await this.openTransaction('readwrite', 'delete');
     const fullKey = this.getFullKey(key);
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readwrite');
       const store = transaction.objectStore(this.storeName);
-      const request = store.delete(fullKey);
+      const request = undoableWrites(store, this.savepoint).delete(fullKey);
 
       request.onsuccess = () => {
+        this.db.getChangeTracker().trackWrite(transaction, [{ store: this.storeName, type: 'delete', keys: [fullKey] }]);
         resolve();
       };
 
@@ -100,11 +162,11 @@ export class KVStore {
    * Check if a key exists
    */
   async has(key: string): Promise<boolean> {
-    const db = await this.db.getDB();
+    const transaction = await this.openTransaction('readonly', 'has');
     const fullKey = this.getFullKey(key);
+    this.db.getChangeTracker().trackRead(this.storeName, [IDBKeyRange.only(fullKey)]);
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readonly');
       const store = transaction.objectStore(this.storeName);
       const request = store.count(IDBKeyRange.only(fullKey));
 
@@ -124,14 +186,14 @@ export class KVStore {
   }
 
   /**
-   * Get all keys (optionally filtered by namespace)
+   * Get all keys (optionally filtered by namespace; internal keys are left out)
    */
   async keys(): Promise<string[]> {
-    const db = await this.db.getDB();
+    const transaction = await this.openTransaction('readonly', 'keys');
     const prefix = this.namespacePrefix ? `${this.namespacePrefix}:` : '';
+    this.db.getChangeTracker().trackRead(this.storeName, null);
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readonly');
       const store = transaction.objectStore(this.storeName);
       const request = store.openCursor();
 
@@ -141,13 +203,9 @@ export class KVStore {
         const cursor = request.result;
         if (cursor) {
           const item = cursor.value as { key: string; value: unknown };
-          if (prefix) {
-            if (item.key.startsWith(prefix)) {
-              // Remove namespace prefix from key
-              keys.push(item.key.slice(prefix.length));
-            }
-          } else {
-            keys.push(item.key);
+          if (this.listsKey(item.key)) {
+            // Remove namespace prefix from key
+            keys.push(item.key.slice(prefix.length));
           }
           cursor.continue();
         } else {
@@ -167,14 +225,13 @@ export class KVStore {
   }
 
   /**
-   * Get all values (optionally filtered by namespace)
+   * Get all values (optionally filtered by namespace; internal keys are left out)
    */
   async values<T = unknown>(): Promise<T[]> {
-    const db = await this.db.getDB();
-    const prefix = this.namespacePrefix ? `${this.namespacePrefix}:` : '';
+    const transaction = await this.openTransaction('readonly', 'values');
+    this.db.getChangeTracker().trackRead(this.storeName, null);
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readonly');
       const store = transaction.objectStore(this.storeName);
       const request = store.openCursor();
 
@@ -184,11 +241,7 @@ export class KVStore {
         const cursor = request.result;
         if (cursor) {
           const item = cursor.value as { key: string; value: T };
-          if (prefix) {
-            if (item.key.startsWith(prefix)) {
-              values.push(item.value);
-            }
-          } else {
+          if (this.listsKey(item.key)) {
             values.push(item.value);
           }
           cursor.continue();
@@ -209,57 +262,41 @@ export class KVStore {
   }
 
   /**
-   * Clear all keys (optionally filtered by namespace)
+   * Clear all keys (optionally filtered by namespace; internal keys are kept)
    */
   async clear(): Promise<void> {
-    const db = await this.db.getDB();
-    const prefix = this.namespacePrefix ? `${this.namespacePrefix}:` : '';
+    const transaction = await this.openTransaction('readwrite', 'clear');
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readwrite');
       const store = transaction.objectStore(this.storeName);
-      
-      if (prefix) {
-        // Delete only keys with this namespace
-        const request = store.openCursor();
-
-        request.onsuccess = () => {
-          const cursor = request.result;
-          if (cursor) {
-            const item = cursor.value as { key: string };
-            if (item.key.startsWith(prefix)) {
-              cursor.delete();
-            }
-            cursor.continue();
-          } else {
-            // All deletions complete
-            resolve();
-          }
-        };
+      // Delete only the keys keys() lists, so internal keys survive
+      const deletedKeys: IDBValidKey[] = [];
+      this.db.getChangeTracker().trackWrite(transaction, [{ store: this.storeName, type: 'delete', keys: deletedKeys }]);
+      const request = store.openCursor();
 
-        request.onerror = () => {
-          const error = request.error;
-          if (error) {
-            reject(this.handleError(error, 'clear'));
-          } else {
-            reject(new TransactionAbortedError('Failed to clear values', { storeNames: [this.storeName] }));
+      request.onsuccess = (): void => {
+        const cursor = request.result;
+        if (cursor) {
+          const item = cursor.value as { key: string };
+          if (this.listsKey(item.key)) {
+            deletedKeys.push(cursor.primaryKey);
+            undoableWrites(store, this.savepoint).deleteAt(cursor);
           }
-        };
-      } else {
-        // Clear all keys
-        const request = store.clear();
-        request.onsuccess = () => {
+          cursor.continue();
+        } else {
+          // All deletions complete
           resolve();
-        };
-        request.onerror = () => {
-          const error = request.error;
-          if (error) {
-            reject(this.handleError(error, 'clear'));
-          } else {
-            reject(new TransactionAbortedError('Failed to clear values', { storeNames: [this.storeName] }));
-          }
-        };
-      }
+        }
+      };
+
+      request.onerror = (): void => {
+        const error = request.error;
+        if (error) {
+          reject(this.handleError(error, 'clear'));
+        } else {
+          reject(new TransactionAbortedError('Failed to clear values', { storeNames: [this.storeName] }));
+        }
+      };
     });
   }
 
@@ -268,7 +305,65 @@ export class KVStore {
    */
   namespace(prefix: string): KVStore {
     const newNamespace = this.namespacePrefix ? `${this.namespacePrefix}:${prefix}` : prefix;
-    return new KVStore(this.db, this.storeName, newNamespace);
+    return new KVStore(this.db, this.storeName, newNamespace, this.transaction, this.savepoint);
+  }
+
+  /**
+   * Read a value and, when `decide` asks for it, write a new one in the same
+   * readwrite transaction; resolves to whether it was written
+   */
+  private async readModifyWrite(
+    key: string,
+    operation: string,
+    decide: (current: unknown) => { write: boolean; value: unknown }
+  ): Promise<boolean> {
+    const transaction = await this.openTransaction('readwrite', operation);
+    const fullKey = this.getFullKey(key);
+
+    return new Promise((resolve, reject) => {
+      const store = transaction.objectStore(this.storeName);
+      const getRequest = store.get(fullKey);
+
+      getRequest.onsuccess = (): void => {
+        const item = getRequest.result as { key: string; value: unknown } | undefined;
+        let decision: { write: boolean; value: unknown };
+        try {
+          decision = decide(item?.value);
+        } catch (error) {
+          reject(error instanceof Error ? error : new Error(String(error)));
+          return;
+        }
+        if (!decision.write) {
+          resolve(false);
+          return;
+        }
+
+        const putRequest = undoableWrites(store, this.savepoint).put({ key: fullKey, value: decision.value });
+
+        putRequest.onsuccess = (): void => {
+          this.db.getChangeTracker().trackWrite(transaction, [{ store: this.storeName, type: 'put', keys: [fullKey] }]);
+          resolve(true);
+        };
+
+        putRequest.onerror = (): void => {
+          const error = putRequest.error;
+          if (error) {
+            reject(this.handleError(error, operation, key));
+          } else {
+            reject(new TransactionAbortedError('Failed to set value', { storeNames: [this.storeName] }));
+          }
+        };
+      };
+
+      getRequest.onerror = (): void => {
+        const error = getRequest.error;
+        if (error) {
+          reject(this.handleError(error, operation, key));
+        } else {
+          reject(new TransactionAbortedError('Failed to get value', { storeNames: [this.storeName] }));
+        }
+      };
+    });
   }
 
   /**
@@ -282,9 +377,38 @@ export class KVStore {
   }
 
   /**
-   * Handle IndexedDB errors and convert to NitroIDB errors
+   * Whether `keys()`, `values()` and `clear()` include a stored key: it must be in
+   * the namespace, and outside one not one of `INTERNAL_KEYS`
+   */
+  private listsKey(fullKey: string): boolean {
+    if (this.namespacePrefix) {
+      return fullKey.startsWith(`${this.namespacePrefix}:`);
+    }
+    return !INTERNAL_KEYS.has(fullKey);
+  }
+
+  /**
+   * Get a transaction on this store (the bound one inside a transaction callback)
+   */
+  private openTransaction(mode: TransactionMode, operation: string): Promise<IDBTransaction> {
+    return openStoreTransaction(this.db, this.storeName, mode, operation, this.transaction);
+  }
+
+  /**
+   * Convert an IndexedDB error and report it to the database's error listeners
    */
   private handleError(error: DOMException | Error, operation: string, key?: string): Error {
+    return this.db.reportError(this.mapError(error, operation, key), {
+      source: 'kv',
+      storeNames: [this.storeName],
+      operation,
+    });
+  }
+
+  /**
+   * Convert IndexedDB errors to NitroIDB errors
+   */
+  private mapError(error: DOMException | Error, operation: string, key?: string): Error {
     const browserInfo = this.db.getBrowserInfo();
     
     if (error.name === 'QuotaExceededError') {
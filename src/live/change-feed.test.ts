@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ChangeTracker } from './change-tracker.js';
+import { ChangeFeed } from './change-feed.js';
+
+/**
+ * In-memory BroadcastChannel stand-in delivering messages synchronously
+ */
+class FakeBroadcastChannel {
+  static open = new Set<FakeBroadcastChannel>();
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.open.add(this);
+  }
+
+  postMessage(data: unknown): void {
+    for (const channel of FakeBroadcastChannel.open) {
+      if (channel !== this && channel.name === this.name) {
+        channel.onmessage?.(new MessageEvent('message', { data }));
+      }
+    }
+  }
+
+  close(): void {
+    FakeBroadcastChannel.open.delete(this);
+  }
+}
+
+function createTab(name: string): { tracker: ChangeTracker; feed: ChangeFeed } {
+  const tracker = new ChangeTracker();
+  const feed = new ChangeFeed(name, tracker);
+  feed.start();
+  return { tracker, feed };
+}
+
+describe('ChangeFeed', () => {
+  afterEach(() => {
+    FakeBroadcastChannel.open.clear();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should report changes from other tabs as remote', () => {
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+    const first = createTab('app');
+    const second = createTab('app');
+    const firstListener = vi.fn();
+    const secondListener = vi.fn();
+    first.tracker.subscribe(firstListener);
+    second.tracker.subscribe(secondListener);
+
+    first.tracker.notify([
+      { store: 'users', type: 'put', keys: ['1'] },
+      { store: 'posts', type: 'clear', keys: null },
+    ]);
+
+    expect(firstListener).toHaveBeenCalledTimes(1);
+    expect(firstListener).toHaveBeenCalledWith(expect.any(Array), false);
+    expect(secondListener).toHaveBeenCalledTimes(2);
+    expect(secondListener).toHaveBeenNthCalledWith(1, [{ store: 'users', type: 'put', keys: ['1'] }], true);
+    expect(secondListener).toHaveBeenNthCalledWith(2, [{ store: 'posts', type: 'clear', keys: null }], true);
+  });
+
+  it('should only relay between tabs of the same database', () => {
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+    const first = createTab('app');
+    const other = createTab('other-app');
+    const listener = vi.fn();
+    other.tracker.subscribe(listener);
+
+    first.tracker.notify([{ store: 'users', type: 'add', keys: ['1'] }]);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should ignore malformed messages', () => {
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+    const { tracker } = createTab('app');
+    const listener = vi.fn();
+    tracker.subscribe(listener);
+
+    const sender = new FakeBroadcastChannel('nitroidb:app');
+    sender.postMessage('hello');
+    sender.postMessage({ store: 'users', type: 'rename', keys: null });
+    sender.postMessage({ store: 'users', type: 'put', keys: 'x' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should stop relaying once stopped', () => {
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+    const first = createTab('app');
+    const second = createTab('app');
+    const listener = vi.fn();
+    second.tracker.subscribe(listener);
+
+    second.feed.stop();
+    first.tracker.notify([{ store: 'users', type: 'add', keys: ['1'] }]);
+
+    expect(second.feed.active).toBe(false);
+    expect(listener).not.toHaveBeenCalled();
+    expect(FakeBroadcastChannel.open.size).toBe(1);
+  });
+
+  it('should fall back to storage events without BroadcastChannel', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const setItem = vi.spyOn(Storage.prototype, 'setItem');
+    const first = createTab('app');
+    const second = createTab('app');
+    const listener = vi.fn();
+    second.tracker.subscribe(listener);
+
+    const date = new Date(2024, 0, 1);
+    first.tracker.notify([{ store: 'events', type: 'put', keys: [date, ['a', 1]] }]);
+
+    // Storage events only reach other windows, so replay the write here
+    const [key, value] = setItem.mock.calls[0] ?? [];
+    window.dispatchEvent(new StorageEvent('storage', { key, newValue: value }));
+    window.dispatchEvent(new StorageEvent('storage', { key, newValue: null }));
+
+    expect(key).toBe('__nitroidb_change__:app');
+    expect(localStorage.getItem('__nitroidb_change__:app')).toBeNull();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith([{ store: 'events', type: 'put', keys: [date, ['a', 1]] }], true);
+  });
+});
@@ -0,0 +1,155 @@
+import type { ChangeType, StoreChange } from '../types/live.js';
+import type { ChangeTracker } from './change-tracker.js';
+import { serializeKey, deserializeKey } from '../utils/key-range.js';
+
+const CHANNEL_PREFIX = 'nitroidb:';
+const STORAGE_KEY_PREFIX = '__nitroidb_change__:';
+const CHANGE_TYPES: ChangeType[] = ['add', 'put', 'update', 'delete', 'clear', 'write'];
+
+/**
+ * Validate a change received from another tab
+ */
+function toStoreChange(data: unknown, serialized: boolean): StoreChange | null {
+  if (data === null || typeof data !== 'object') {
+    return null;
+  }
+
+  const { store, type, keys } = data as { store?: unknown; type?: unknown; keys?: unknown };
+  if (typeof store !== 'string' || !CHANGE_TYPES.includes(type as ChangeType)) {
+    return null;
+  }
+  if (keys !== null && !Array.isArray(keys)) {
+    return null;
+  }
+
+  try {
+    return {
+      store,
+      type: type as ChangeType,
+      keys: keys === null ? null : serialized ? keys.map(deserializeKey) : (keys as IDBValidKey[]),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Relays committed writes between tabs of the same origin
+ * Local writes are published on a BroadcastChannel named after the database and
+ * changes published by other tabs are reported to the tracker as remote. Where
+ * BroadcastChannel is missing, localStorage `storage` events are used instead.
+ */
+export class ChangeFeed {
+  private readonly name: string;
+  private readonly tracker: ChangeTracker;
+  private readonly log: ((message: string, ...details: unknown[]) => void) | undefined;
+  private channel: BroadcastChannel | null = null;
+  private storageListener: ((event: StorageEvent) => void) | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(databaseName: string, tracker: ChangeTracker, log?: (message: string, ...details: unknown[]) => void) {
+    this.name = databaseName;
+    this.tracker = tracker;
+    this.log = log;
+  }
+
+  /**
+   * Whether the feed is publishing and receiving changes
+   */
+  get active(): boolean {
+    return this.unsubscribe !== null;
+  }
+
+  /**
+   * Start relaying changes (does nothing when no transport is available)
+   */
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_PREFIX + this.name);
+      this.channel.onmessage = (event: MessageEvent): void => {
+        this.receive(toStoreChange(event.data, false));
+      };
+    } else if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
+      const storageKey = STORAGE_KEY_PREFIX + this.name;
+      this.storageListener = (event: StorageEvent): void => {
+        if (event.key !== storageKey || !event.newValue) {
+          return;
+        }
+        try {
+          this.receive(toStoreChange(JSON.parse(event.newValue), true));
+        } catch {
+          // Not a change message
+        }
+      };
+      window.addEventListener('storage', this.storageListener);
+    } else {
+      return;
+    }
+
+    this.unsubscribe = this.tracker.subscribe((changes, remote) => {
+      if (!remote) {
+        changes.forEach((change) => this.publish(change));
+      }
+    });
+  }
+
+  /**
+   * Stop relaying changes
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    if (this.channel) {
+      this.channel.onmessage = null;
+      this.channel.close();
+      this.channel = null;
+    }
+    if (this.storageListener) {
+      window.removeEventListener('storage', this.storageListener);
+      this.storageListener = null;
+    }
+  }
+
+  /**
+   * Send one local change to the other tabs
+   */
+  private publish(change: StoreChange): void {
+    const message = { store: change.store, type: change.type, keys: change.keys };
+
+    try {
+      if (this.channel) {
+        this.channel.postMessage(message);
+        return;
+      }
+
+      // storage events only fire when the value changes, hence the nonce
+      const storageKey = STORAGE_KEY_PREFIX + this.name;
+      localStorage.setItem(
+        storageKey,
+        JSON.stringify({
+          ...message,
+          keys: message.keys === null ? null : message.keys.map(serializeKey),
+          nonce: `${Date.now()}:${Math.random()}`,
+        })
+      );
+      localStorage.removeItem(storageKey);
+    } catch (error) {
+      // Other tabs miss this change, local listeners are unaffected
+      this.log?.('Failed to publish change to other tabs:', error);
+    }
+  }
+
+  /**
+   * Report a change from another tab
+   */
+  private receive(change: StoreChange | null): void {
+    if (change) {
+      this.tracker.notify([change], true);
+    }
+  }
+}
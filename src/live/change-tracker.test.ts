@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ChangeTracker, ReadSet } from './change-tracker.js';
+
+describe('ReadSet', () => {
+  it('should match changes to stores read in full', () => {
+    const reads = new ReadSet();
+    reads.add('users', null);
+
+    expect(reads.intersects([{ store: 'users', type: 'put', keys: ['1'] }])).toBe(true);
+    expect(reads.intersects([{ store: 'posts', type: 'clear', keys: null }])).toBe(false);
+  });
+
+  it('should match changes by primary key range', () => {
+    const reads = new ReadSet();
+    reads.add('users', [IDBKeyRange.only('1')]);
+    reads.add('users', [IDBKeyRange.bound('5', '7')]);
+
+    expect(reads.intersects([{ store: 'users', type: 'update', keys: ['2', '6'] }])).toBe(true);
+    expect(reads.intersects([{ store: 'users', type: 'update', keys: ['2', '9'] }])).toBe(false);
+    expect(reads.intersects([{ store: 'users', type: 'clear', keys: null }])).toBe(true);
+  });
+});
+
+describe('ChangeTracker', () => {
+  it('should notify listeners until they unsubscribe', () => {
+    const tracker = new ChangeTracker();
+    const listener = vi.fn();
+
+    const unsubscribe = tracker.subscribe(listener);
+    tracker.notify([{ store: 'users', type: 'add', keys: ['1'] }]);
+    unsubscribe();
+    tracker.notify([{ store: 'users', type: 'add', keys: ['2'] }]);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith([{ store: 'users', type: 'add', keys: ['1'] }], false);
+  });
+
+  it('should collect reads made while a querier runs', async () => {
+    const tracker = new ChangeTracker();
+
+    const { result, reads } = await tracker.collectReads(async () => {
+      tracker.trackRead('users', null);
+      await Promise.resolve();
+      tracker.trackRead('posts', null);
+      return 42;
+    });
+    tracker.trackRead('comments', null);
+
+    expect(result).toBe(42);
+    expect(reads.intersects([{ store: 'posts', type: 'write', keys: null }])).toBe(true);
+    expect(reads.intersects([{ store: 'comments', type: 'write', keys: null }])).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import type { StoreChange } from '../types/live.js';
+import { rangesInclude } from '../utils/key-range.js';
+
+/**
+ * Stores and primary key ranges read by a live query run
+ */
+export class ReadSet {
+  /** Primary key ranges read per store (null means the whole store) */
+  private readonly stores = new Map<string, IDBKeyRange[] | null>();
+
+  /**
+   * Record a read of some primary key ranges (or the whole store) of a store
+   */
+  add(storeName: string, ranges: IDBKeyRange[] | null): void {
+    const existing = this.stores.get(storeName);
+    if (existing === null || ranges === null) {
+      this.stores.set(storeName, null);
+    } else {
+      this.stores.set(storeName, [...(existing ?? []), ...ranges]);
+    }
+  }
+
+  /**
+   * Whether any of the changes touches something that was read
+   */
+  intersects(changes: StoreChange[]): boolean {
+    return changes.some((change) => {
+      if (!this.stores.has(change.store)) {
+        return false;
+      }
+      const ranges = this.stores.get(change.store) ?? null;
+      if (ranges === null || change.keys === null) {
+        return true;
+      }
+      return change.keys.some((key) => rangesInclude(ranges, key));
+    });
+  }
+}
+
+/**
+ * Tracks committed writes and the reads made by running live queries
+ */
+export class ChangeTracker {
+  private readonly listeners = new Set<(changes: StoreChange[], remote: boolean) => void>();
+  private readonly readers = new Set<ReadSet>();
+
+  /**
+   * Listen for committed writes; returns a function that removes the listener
+   * `remote` is true for writes committed by another tab.
+   */
+  subscribe(listener: (changes: StoreChange[], remote: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Report committed writes to every listener
+   */
+  notify(changes: StoreChange[], remote: boolean = false): void {
+    if (changes.length === 0) {
+      return;
+    }
+    for (const listener of Array.from(this.listeners)) {
+      listener(changes, remote);
+    }
+  }
+
+  /**
+   * Report writes once the transaction commits (nothing is reported if it aborts)
+   * The change objects are read at commit time, so their key lists may still be
+   * filled in while the transaction runs.
+   */
+  trackWrite(transaction: IDBTransaction, changes: StoreChange[]): void {
+    transaction.addEventListener('complete', () => {
+      this.notify(changes);
+    });
+  }
+
+  /**
+   * Record a read for every live query currently running
+   * Concurrent runs may record each other's reads, which can only cause extra
+   * re-runs, never missed ones.
+   */
+  trackRead(storeName: string, ranges: IDBKeyRange[] | null): void {
+    for (const reads of this.readers) {
+      reads.add(storeName, ranges);
+    }
+  }
+
+  /**
+   * Run a function and collect every read made while it runs
+   */
+  async collectReads<R>(querier: () => Promise<R>): Promise<{ result: R; reads: ReadSet }> {
+    const reads = new ReadSet();
+    this.readers.add(reads);
+    try {
+      return { result: await querier(), reads };
+    } finally {
+      this.readers.delete(reads);
+    }
+  }
+}
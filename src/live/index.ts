@@ -0,0 +1,3 @@
+export { ChangeTracker, ReadSet } from './change-tracker.js';
+export { ChangeFeed } from './change-feed.js';
+export { LiveQuery } from './live-query.js';
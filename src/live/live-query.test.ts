@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import { openTestDB } from '../../tests/helpers.js';
+import type { DatabaseErrorEvent } from '../types/events.js';
+
+interface User {
+  id: string;
+  name: string;
+  age: number;
+}
+
+/**
+ * Poll until a condition holds
+ */
+async function waitFor(check: () => boolean, timeout: number = 2000): Promise<void> {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+/**
+ * Wait long enough for a debounced re-run to have happened
+ */
+async function settle(ms: number = 60): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('LiveQuery', () => {
+  it('should re-emit query results after writes', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id', indexes: [{ name: 'age', keyPath: 'age' }] },
+    });
+    const usersTable = db.table<User>('users');
+    await usersTable.add({ id: '1', name: 'John', age: 30 });
+
+    const emissions: string[][] = [];
+    const latest = (): string => JSON.stringify(emissions[emissions.length - 1]);
+    const subscription = usersTable
+      .where('age')
+      .above(18)
+      .subscribe((users) => emissions.push(users.map((u) => u.id)), undefined, { debounce: 10 });
+
+    await waitFor(() => latest() === '["1"]');
+
+    await usersTable.add({ id: '2', name: 'Jane', age: 25 });
+    await waitFor(() => latest() === '["2","1"]');
+
+    await usersTable.bulkAdd([{ id: '3', name: 'Bob', age: 40 }]);
+    await waitFor(() => latest() === '["2","1","3"]');
+
+    await db.transaction.readwrite('users', (ctx) => {
+      ctx.transaction.objectStore('users').delete('1');
+    });
+    await waitFor(() => latest() === '["2","3"]');
+
+    subscription.unsubscribe();
+    expect(subscription.closed).toBe(true);
+
+    const emitted = emissions.length;
+    await usersTable.delete('2');
+    await settle();
+    expect(emissions).toHaveLength(emitted);
+
+    db.close();
+  });
+
+  it('should debounce bursts of writes', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+    });
+    const usersTable = db.table<User>('users');
+
+    let runs = 0;
+    const counts: number[] = [];
+    const subscription = db
+      .liveQuery(() => {
+        runs++;
+        return usersTable.count();
+      }, { debounce: 40 })
+      .subscribe((count) => counts.push(count));
+
+    await waitFor(() => counts.length === 1);
+
+    await Promise.all([
+      usersTable.add({ id: '1', name: 'John', age: 30 }),
+      usersTable.add({ id: '2', name: 'Jane', age: 25 }),
+      usersTable.add({ id: '3', name: 'Bob', age: 40 }),
+    ]);
+
+    await waitFor(() => counts.length === 2);
+    await settle(80);
+    expect(counts).toEqual([0, 3]);
+    expect(runs).toBe(2);
+
+    subscription.unsubscribe();
+    db.close();
+  });
+
+  it('should only re-run for writes to what the query read', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+      posts: { primaryKey: 'id' },
+    });
+    const usersTable = db.table<User>('users');
+    await usersTable.add({ id: '1', name: 'John', age: 30 });
+
+    const names: Array<string | undefined> = [];
+    const subscription = db
+      .liveQuery(async () => {
+        const user = await usersTable.get('1');
+        const theme = await db.kv.get('theme');
+        return `${user?.name ?? '-'}:${theme === undefined ? 'none' : 'set'}`;
+      }, { debounce: 10 })
+      .subscribe((value) => names.push(value));
+
+    // The setup write may still commit during the first run and cause one re-run
+    await waitFor(() => names.length >= 1);
+    await settle();
+    const initial = names.length;
+
+    // Other key, other store: no re-run
+    await usersTable.add({ id: '2', name: 'Jane', age: 25 });
+    await db.table('posts').put({ id: 'p1' });
+    await db.kv.set('other', 1);
+    await settle();
+    expect(names).toHaveLength(initial);
+
+    await usersTable.update('1', { name: 'Johnny' });
+    await waitFor(() => names.length === initial + 1);
+    expect(names[initial]).toBe('Johnny:none');
+
+    await db.kv.set('theme', 'dark');
+    await waitFor(() => names.length === initial + 2);
+    expect(names[initial + 1]).toBe('Johnny:set');
+
+    subscription.unsubscribe();
+    db.close();
+  });
+
+  it('should report querier errors', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+    });
+
+    const errors: Error[] = [];
+    const subscription = db
+      .liveQuery(() => Promise.reject(new Error('boom')))
+      .subscribe(() => undefined, (error) => errors.push(error));
+
+    await waitFor(() => errors.length === 1);
+    expect(errors[0]?.message).toBe('boom');
+
+    subscription.unsubscribe();
+    db.close();
+  });
+
+  it('should emit querier errors as error events without an error callback', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+    });
+
+    const events: DatabaseErrorEvent[] = [];
+    db.on('error', (event) => events.push(event));
+    const subscription = db.liveQuery(() => Promise.reject(new Error('boom'))).subscribe(() => undefined);
+
+    await waitFor(() => events.length === 1);
+    expect(events[0]).toMatchObject({ source: 'query', operation: 'liveQuery' });
+    expect(events[0]?.error.message).toBe('boom');
+
+    subscription.unsubscribe();
+    db.close();
+  });
+});
@@ -0,0 +1,121 @@
+import type { StoreChange, LiveQueryOptions, LiveQuerySubscription } from '../types/live.js';
+import type { ChangeTracker, ReadSet } from './change-tracker.js';
+
+/**
+ * Default delay before re-running a live query after writes
+ */
+const DEFAULT_DEBOUNCE = 50;
+
+/**
+ * A query function that re-runs whenever a write touches what it read
+ */
+export class LiveQuery<R> {
+  private readonly tracker: ChangeTracker;
+  private readonly querier: () => Promise<R>;
+  private readonly debounce: number;
+  /** Receives failures of subscriptions without an error callback */
+  private readonly report: ((error: Error) => void) | undefined;
+
+  constructor(
+    tracker: ChangeTracker,
+    querier: () => Promise<R>,
+    options: LiveQueryOptions = {},
+    report?: (error: Error) => void
+  ) {
+    this.tracker = tracker;
+    this.querier = querier;
+    this.report = report;
+    this.debounce = options.debounce ?? DEFAULT_DEBOUNCE;
+  }
+
+  /**
+   * Run the query now and again after every relevant write
+   */
+  subscribe(onNext: (value: R) => void, onError?: (error: Error) => void): LiveQuerySubscription {
+    let closed = false;
+    let running = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let reads: ReadSet | null = null;
+    // Writes committed while a run is in flight, checked against its reads afterwards
+    let pending: StoreChange[] = [];
+
+    const schedule = (): void => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(() => {
+        timer = null;
+        void run();
+      }, this.debounce);
+    };
+
+    const run = async (): Promise<void> => {
+      if (closed) {
+        return;
+      }
+      if (running) {
+        schedule();
+        return;
+      }
+
+      running = true;
+      pending = [];
+
+      try {
+        const outcome = await this.tracker.collectReads(this.querier);
+        reads = outcome.reads;
+        if (!closed) {
+          onNext(outcome.result);
+        }
+      } catch (error) {
+        if (!closed) {
+          const err = error instanceof Error ? error : new Error(String(error));
+          if (onError) {
+            onError(err);
+          } else {
+            this.report?.(err);
+          }
+        }
+      } finally {
+        running = false;
+      }
+
+      if (!closed && pending.length > 0 && (!reads || reads.intersects(pending))) {
+        schedule();
+      }
+      pending = [];
+    };
+
+    const stopListening = this.tracker.subscribe((changes) => {
+      if (closed) {
+        return;
+      }
+      if (running) {
+        pending.push(...changes);
+        return;
+      }
+      if (!reads || reads.intersects(changes)) {
+        schedule();
+      }
+    });
+
+    void run();
+
+    return {
+      get closed(): boolean {
+        return closed;
+      },
+      unsubscribe: (): void => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        if (timer) {
+          clearTimeout(timer);
+          timer = null;
+        }
+        stopListening();
+      },
+    };
+  }
+}
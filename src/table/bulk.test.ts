@@ -1,7 +1,8 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { createDB } from '../database/index.js';
 import type { BulkWriteResult } from './bulk.js';
 import type { Table } from './table.js';
+import { openTestDB } from '../../tests/helpers.js';
 
 interface User {
   id: string;
@@ -41,10 +42,6 @@ describe('BulkWriteEngine', () => {
   });
 
   it('should bulk add records', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -74,10 +71,6 @@ describe('BulkWriteEngine', () => {
   });
 
   it('should handle empty array', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -98,10 +91,6 @@ describe('BulkWriteEngine', () => {
   });
 
   it('should report progress', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -135,10 +124,6 @@ describe('BulkWriteEngine', () => {
   });
 
   it('should handle partial failures', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -169,10 +154,6 @@ describe('BulkWriteEngine', () => {
   });
 
   it('should use custom batch size', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -198,10 +179,6 @@ describe('BulkWriteEngine', () => {
   });
 
   it('should bulk delete records', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -234,10 +211,6 @@ describe('BulkWriteEngine', () => {
   });
 
   it('should handle retries on failure', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -267,10 +240,6 @@ describe('BulkWriteEngine', () => {
   });
 
   it('should adapt batch size on failure', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -301,10 +270,6 @@ describe('BulkWriteEngine', () => {
   });
 
   it('should respect timeout', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -330,5 +295,38 @@ describe('BulkWriteEngine', () => {
 
     db.close();
   });
-});
 
+  it('should import with relaxed durability unless told otherwise', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+    });
+    db.getQuirks().supportsDurability = true;
+    const idb = await db.getDB();
+    const transaction = vi.spyOn(idb, 'transaction');
+
+    await db.table('users').bulkAdd([{ id: '1' }]);
+    expect(transaction).toHaveBeenLastCalledWith('users', 'readwrite', { durability: 'relaxed' });
+
+    await db.table('users').bulkAdd([{ id: '2' }], { durability: 'strict' });
+    expect(transaction).toHaveBeenLastCalledWith('users', 'readwrite', { durability: 'strict' });
+
+    await db.table('users').put({ id: '3' });
+    expect(transaction).toHaveBeenLastCalledWith('users', 'readwrite', undefined);
+
+    db.close();
+  });
+
+  it('should import with the durability of a database that sets one', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+    }, { durability: 'strict' });
+    db.getQuirks().supportsDurability = true;
+    const idb = await db.getDB();
+    const transaction = vi.spyOn(idb, 'transaction');
+
+    await db.table('users').bulkAdd([{ id: '1' }]);
+    expect(transaction).toHaveBeenLastCalledWith('users', 'readwrite', { durability: 'strict' });
+
+    db.close();
+  });
+});
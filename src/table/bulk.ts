@@ -1,5 +1,10 @@
 import type { Database } from '../database/database.js';
 import { TransactionAbortedError, StorageEvictedError, QuotaExceededError, TransactionTimeoutError } from '../errors/index.js';
+import { openStoreTransaction } from '../transaction/store-transaction.js';
+import { undoableWrites } from '../transaction/savepoint.js';
+import type { Savepoint } from '../transaction/savepoint.js';
+import { getVersionField, withVersion } from '../utils/version.js';
+import type { TransactionMode, TransactionDurability } from '../types/transaction.js';
 
 /**
  * Options for bulk write operations
@@ -17,6 +22,8 @@ export interface BulkWriteOptions {
   retryOnFail?: boolean;
   /** Transaction timeout in milliseconds */
   timeout?: number;
+  /** Durability hint for each batch (bulkAdd default: the store's or database's durability, else 'relaxed') */
+  durability?: TransactionDurability;
 }
 
 /**
@@ -36,13 +43,19 @@ export interface BulkWriteResult {
 /**
  * Bulk write engine for efficient batch operations
  */
-export class BulkWriteEngine<T = unknown> {
+export class BulkWriteEngine<T = unknown, TKey extends IDBValidKey = IDBValidKey> {
   private readonly db: Database;
   private readonly storeName: string;
+  /** Transaction every batch runs in (set for `ctx.table()` handles) */
+  private readonly transaction?: IDBTransaction;
+  /** Undo log of the `ctx.savepoint()` scope this handle belongs to */
+  private readonly savepoint: Savepoint | null;
 
-  constructor(db: Database, storeName: string) {
+  constructor(db: Database, storeName: string, transaction?: IDBTransaction, savepoint: Savepoint | null = null) {
     this.db = db;
     this.storeName = storeName;
+    this.transaction = transaction;
+    this.savepoint = savepoint;
   }
 
   /**
@@ -58,9 +71,12 @@ export class BulkWriteEngine<T = unknown> {
 
     const quirks = this.db.getQuirks();
     const batchSize = options.batchSize ?? quirks.recommendedBatchSize;
-    const maxRetries = options.retries ?? (options.retryOnFail ? 3 : 0);
+    // A failed batch aborts a bound transaction, so there is nothing to retry
+    const maxRetries = this.transaction ? 0 : options.retries ?? (options.retryOnFail ? 3 : 0);
     const retryDelay = options.retryDelay ?? (quirks.safariQuirks ? 200 : 100);
     const timeout = options.timeout ?? quirks.recommendedTimeout;
+    // Imports can be re-run after a crash, so they trade flush-to-disk for speed
+    const durability = options.durability ?? this.db.declaredDurability([this.storeName]) ?? 'relaxed';
     const progress = options.progress;
 
     let currentBatchSize = batchSize;
@@ -70,9 +86,12 @@ export class BulkWriteEngine<T = unknown> {
     const errors: Error[] = [];
 
     // Process in batches
-    for (let i = 0; i < records.length; i += currentBatchSize) {
+    // The batch size changes between batches, so advance by what was written
+    let i = 0;
+    while (i < records.length) {
       const batch = records.slice(i, i + currentBatchSize);
       const batchStartIndex = i;
+      i += batch.length;
 
       let batchSuccess = false;
       let attempt = 0;
@@ -80,7 +99,7 @@ export class BulkWriteEngine<T = unknown> {
       // Retry logic for this batch
       while (attempt <= maxRetries && !batchSuccess) {
         try {
-          const batchResult = await this.writeBatch(batch, timeout);
+          const batchResult = await this.writeBatch(batch, timeout, durability);
           successCount += batchResult.success;
           failedCount += batchResult.failed;
 
@@ -144,31 +163,33 @@ export class BulkWriteEngine<T = unknown> {
    */
   private async writeBatch(
     batch: T[],
-    timeout: number
+    timeout: number,
+    durability: TransactionDurability
   ): Promise<BulkWriteResult> {
-    const db = await this.db.getDB();
+    const transaction = await this.openTransaction('readwrite', 'bulkAdd', durability);
 
     return new Promise((resolve, reject) => {
       let timeoutId: ReturnType<typeof setTimeout> | null = null;
       let transactionCompleted = false;
 
-      const transaction = db.transaction(this.storeName, 'readwrite');
       const store = transaction.objectStore(this.storeName);
 
-      // Set timeout
-      timeoutId = setTimeout(() => {
-        if (!transactionCompleted) {
-          transactionCompleted = true;
-          transaction.abort();
-          const browserInfo = this.db.getBrowserInfo();
-          reject(
-            new TransactionTimeoutError(timeout, {
-              browserInfo,
-              storeNames: [this.storeName],
-            })
-          );
-        }
-      }, timeout);
+      // Inside a transaction callback the transaction manager owns the timeout
+      if (!this.transaction) {
+        timeoutId = setTimeout(() => {
+          if (!transactionCompleted) {
+            transactionCompleted = true;
+            transaction.abort();
+            const browserInfo = this.db.getBrowserInfo();
+            reject(
+              new TransactionTimeoutError(timeout, {
+                browserInfo,
+                storeNames: [this.storeName],
+              })
+            );
+          }
+        }, timeout);
+      }
 
       const results: { success: number; failed: number; failedIndices: number[]; errors: Error[] } = {
         success: 0,
@@ -178,55 +199,54 @@ export class BulkWriteEngine<T = unknown> {
       };
 
       let completed = 0;
-      let hasError = false;
+      const settle = (): void => {
+        completed++;
+        if (completed === batch.length) {
+          if (timeoutId) {
+            clearTimeout(timeoutId);
+          }
+          transactionCompleted = true;
+          resolve(results);
+        }
+      };
+
+      const versionField = getVersionField(this.db.schema.stores[this.storeName]);
+      const addedKeys: IDBValidKey[] = [];
+      this.db.getChangeTracker().trackWrite(transaction, [{ store: this.storeName, type: 'add', keys: addedKeys }]);
 
       // Add all records in the batch
       for (let i = 0; i < batch.length; i++) {
         const record = batch[i];
-        const request = store.add(record);
+        const request = undoableWrites(store, this.savepoint).add(versionField === null ? record : withVersion(record, versionField, 1));
 
         request.onsuccess = () => {
+          addedKeys.push(request.result);
           results.success++;
-          completed++;
-
-          if (completed === batch.length && !hasError) {
-            if (timeoutId) {
-              clearTimeout(timeoutId);
-            }
-            transactionCompleted = true;
-            resolve(results);
-          }
+          settle();
         };
 
-        request.onerror = () => {
-          if (!hasError) {
-            hasError = true;
-            const error = request.error;
-            const errorObj = this.handleError(
-              error ?? new Error('Add failed'),
-              'bulkAdd',
-              i
-            );
-
-            results.failed++;
-            results.failedIndices.push(i);
-            results.errors.push(errorObj);
-          }
+        request.onerror = (event): void => {
+          const errorObj = this.handleError(
+            request.error ?? new Error('Add failed'),
+            'bulkAdd',
+            i
+          );
 
-          completed++;
+          results.failed++;
+          results.failedIndices.push(i);
+          results.errors.push(errorObj);
 
-          // Continue processing other records even if one fails
-          if (completed === batch.length) {
-            if (timeoutId) {
-              clearTimeout(timeoutId);
-            }
-            transactionCompleted = true;
-            resolve(results);
+          // Continue processing other records even if one fails (the failure is in
+          // the result); a bound transaction still aborts, as there is no retry
+          if (!this.transaction) {
+            event.preventDefault();
+            event.stopPropagation();
           }
+          settle();
         };
       }
 
-      transaction.onerror = () => {
+      transaction.addEventListener('error', () => {
         if (timeoutId) {
           clearTimeout(timeoutId);
         }
@@ -244,9 +264,9 @@ export class BulkWriteEngine<T = unknown> {
             )
           );
         }
-      };
+      });
 
-      transaction.onabort = () => {
+      transaction.addEventListener('abort', () => {
         if (timeoutId) {
           clearTimeout(timeoutId);
         }
@@ -260,7 +280,7 @@ export class BulkWriteEngine<T = unknown> {
             })
           );
         }
-      };
+      });
     });
   }
 
@@ -268,7 +288,7 @@ export class BulkWriteEngine<T = unknown> {
    * Bulk delete records with adaptive batching
    */
   async bulkDelete(
-    keys: IDBValidKey[],
+    keys: TKey[],
     options: BulkWriteOptions = {}
   ): Promise<BulkWriteResult> {
     if (keys.length === 0) {
@@ -277,7 +297,8 @@ export class BulkWriteEngine<T = unknown> {
 
     const quirks = this.db.getQuirks();
     const batchSize = options.batchSize ?? quirks.recommendedBatchSize;
-    const maxRetries = options.retries ?? (options.retryOnFail ? 3 : 0);
+    // A failed batch aborts a bound transaction, so there is nothing to retry
+    const maxRetries = this.transaction ? 0 : options.retries ?? (options.retryOnFail ? 3 : 0);
     const retryDelay = options.retryDelay ?? (quirks.safariQuirks ? 200 : 100);
     const timeout = options.timeout ?? quirks.recommendedTimeout;
     const progress = options.progress;
@@ -289,9 +310,12 @@ export class BulkWriteEngine<T = unknown> {
     const errors: Error[] = [];
 
     // Process in batches
-    for (let i = 0; i < keys.length; i += currentBatchSize) {
+    // The batch size changes between batches, so advance by what was written
+    let i = 0;
+    while (i < keys.length) {
       const batch = keys.slice(i, i + currentBatchSize);
       const batchStartIndex = i;
+      i += batch.length;
 
       let batchSuccess = false;
       let attempt = 0;
@@ -299,7 +323,7 @@ export class BulkWriteEngine<T = unknown> {
       // Retry logic for this batch
       while (attempt <= maxRetries && !batchSuccess) {
         try {
-          const batchResult = await this.deleteBatch(batch, timeout);
+          const batchResult = await this.deleteBatch(batch, timeout, options.durability);
           successCount += batchResult.success;
           failedCount += batchResult.failed;
 
@@ -349,31 +373,34 @@ export class BulkWriteEngine<T = unknown> {
    * Delete a single batch of keys
    */
   private async deleteBatch(
-    keys: IDBValidKey[],
-    timeout: number
+    keys: TKey[],
+    timeout: number,
+    durability?: TransactionDurability
   ): Promise<BulkWriteResult> {
-    const db = await this.db.getDB();
+    const transaction = await this.openTransaction('readwrite', 'bulkDelete', durability);
 
     return new Promise((resolve, reject) => {
       let timeoutId: ReturnType<typeof setTimeout> | null = null;
       let transactionCompleted = false;
 
-      const transaction = db.transaction(this.storeName, 'readwrite');
       const store = transaction.objectStore(this.storeName);
 
-      timeoutId = setTimeout(() => {
-        if (!transactionCompleted) {
-          transactionCompleted = true;
-          transaction.abort();
-          const browserInfo = this.db.getBrowserInfo();
-          reject(
-            new TransactionTimeoutError(timeout, {
-              browserInfo,
-              storeNames: [this.storeName],
-            })
-          );
-        }
-      }, timeout);
+      // Inside a transaction callback the transaction manager owns the timeout
+      if (!this.transaction) {
+        timeoutId = setTimeout(() => {
+          if (!transactionCompleted) {
+            transactionCompleted = true;
+            transaction.abort();
+            const browserInfo = this.db.getBrowserInfo();
+            reject(
+              new TransactionTimeoutError(timeout, {
+                browserInfo,
+                storeNames: [this.storeName],
+              })
+            );
+          }
+        }, timeout);
+      }
 
       const results: { success: number; failed: number; failedIndices: number[]; errors: Error[] } = {
         success: 0,
@@ -385,6 +412,9 @@ export class BulkWriteEngine<T = unknown> {
       let completed = 0;
       let hasError = false;
 
+      const deletedKeys: IDBValidKey[] = [];
+      this.db.getChangeTracker().trackWrite(transaction, [{ store: this.storeName, type: 'delete', keys: deletedKeys }]);
+
       for (let i = 0; i < keys.length; i++) {
         const key = keys[i];
         if (key === undefined || key === null) {
@@ -403,9 +433,10 @@ export class BulkWriteEngine<T = unknown> {
           continue;
         }
 
-        const request = store.delete(key);
+        const request = undoableWrites(store, this.savepoint).delete(key);
 
         request.onsuccess = () => {
+          deletedKeys.push(key);
           results.success++;
           completed++;
 
@@ -445,7 +476,7 @@ export class BulkWriteEngine<T = unknown> {
         };
       }
 
-      transaction.onerror = () => {
+      transaction.addEventListener('error', () => {
         if (timeoutId) {
           clearTimeout(timeoutId);
         }
@@ -463,9 +494,9 @@ export class BulkWriteEngine<T = unknown> {
             )
           );
         }
-      };
+      });
 
-      transaction.onabort = () => {
+      transaction.addEventListener('abort', () => {
         if (timeoutId) {
           clearTimeout(timeoutId);
         }
@@ -479,14 +510,36 @@ export class BulkWriteEngine<T = unknown> {
             })
           );
         }
-      };
+      });
     });
   }
 
   /**
-   * Handle IndexedDB errors and convert to NitroIDB errors
+   * Get a transaction on this store (the bound one inside a transaction callback)
+   */
+  private openTransaction(
+    mode: TransactionMode,
+    operation: string,
+    durability?: TransactionDurability
+  ): Promise<IDBTransaction> {
+    return openStoreTransaction(this.db, this.storeName, mode, operation, this.transaction, durability);
+  }
+
+  /**
+   * Convert an IndexedDB error and report it to the database's error listeners
    */
   private handleError(error: DOMException | Error, operation: string, index?: number): Error {
+    return this.db.reportError(this.mapError(error, operation, index), {
+      source: 'bulk',
+      storeNames: [this.storeName],
+      operation,
+    });
+  }
+
+  /**
+   * Convert IndexedDB errors to NitroIDB errors
+   */
+  private mapError(error: DOMException | Error, operation: string, index?: number): Error {
     const browserInfo = this.db.getBrowserInfo();
 
     if (error.name === 'QuotaExceededError') {
@@ -1,4 +1,6 @@
 export { Table } from './table.js';
+export type { UpdateOptions } from './table.js';
+export type { Modifier } from './modify.js';
 export { Query, QueryWhere } from './query.js';
 export { BulkWriteEngine } from './bulk.js';
 export type { BulkWriteOptions, BulkWriteResult } from './bulk.js';
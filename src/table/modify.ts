@@ -0,0 +1,34 @@
+import { getValueByKeyPath, isValidKey } from '../utils/key-range.js';
+import { readVersion, withVersion } from '../utils/version.js';
+
+/**
+ * Updater for `Table.modify()` and `Query.modify()`: edit the record in place or
+ * return a replacement
+ */
+export type Modifier<T> = (record: T) => T | void;
+
+/**
+ * Run a modifier on a stored record and return the record to write back
+ * Throws when the modifier changes the primary key; in a versioned store the
+ * result gets the next version.
+ */
+export function applyModifier<T>(
+  storeName: string,
+  keyPath: string | string[] | null,
+  primaryKey: IDBValidKey,
+  record: T,
+  modifier: Modifier<T>,
+  versionField: string | null
+): T {
+  const version = versionField === null ? 0 : readVersion(record, versionField);
+  const modified = modifier(record) ?? record;
+
+  if (keyPath !== null) {
+    const key = getValueByKeyPath(modified, keyPath);
+    if (!isValidKey(key) || indexedDB.cmp(key, primaryKey) !== 0) {
+      throw new Error(`modify() cannot change the primary key of "${storeName}" record "${String(primaryKey)}"`);
+    }
+  }
+
+  return versionField === null ? modified : withVersion(modified, versionField, version + 1);
+}
@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, expectTypeOf, vi, beforeEach, afterEach } from 'vitest';
 import { createDB } from '../database/index.js';
+import { openUsers, openTestDB } from '../../tests/helpers.js';
 
 interface User {
   id: string;
@@ -41,10 +42,6 @@ describe('Query', () => {
   });
 
   it('should query by index with equals', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -70,10 +67,6 @@ describe('Query', () => {
   });
 
   it('should query by primary key with equals', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -96,10 +89,6 @@ describe('Query', () => {
   });
 
   it('should query with above', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -126,10 +115,6 @@ describe('Query', () => {
   });
 
   it('should query with aboveOrEqual', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -155,10 +140,6 @@ describe('Query', () => {
   });
 
   it('should query with below', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -184,10 +165,6 @@ describe('Query', () => {
   });
 
   it('should query with belowOrEqual', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -213,10 +190,6 @@ describe('Query', () => {
   });
 
   it('should query with between', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -243,10 +216,6 @@ describe('Query', () => {
   });
 
   it('should query with startsWith', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -273,10 +242,6 @@ describe('Query', () => {
   });
 
   it('should sort with orderBy', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -302,10 +267,6 @@ describe('Query', () => {
   });
 
   it('should reverse sort order', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -335,10 +296,6 @@ describe('Query', () => {
   });
 
   it('should limit results', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -364,10 +321,6 @@ describe('Query', () => {
   });
 
   it('should offset results', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -395,10 +348,6 @@ describe('Query', () => {
   });
 
   it('should get first result', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -424,10 +373,6 @@ describe('Query', () => {
   });
 
   it('should count query results', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -453,10 +398,6 @@ describe('Query', () => {
   });
 
   it('should chain query operations', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -487,4 +428,453 @@ describe('Query', () => {
 
     db.close();
   });
+
+  it('should combine conditions with and()', async () => {
+    const { db, users: usersTable } = await openUsers([
+      { name: 'age', keyPath: 'age' },
+      { name: 'name', keyPath: 'name' },
+    ], [
+      { id: '1', name: 'John', email: 'john@example.com', age: 30, createdAt: 1000 },
+      { id: '2', name: 'Jane', email: 'jane@example.com', age: 25, createdAt: 2000 },
+      { id: '3', name: 'John', email: 'john2@example.com', age: 35, createdAt: 3000 },
+    ]);
+
+    const results = await usersTable.where('name').equals('John').and('age').above(30).toArray();
+    expect(results.map((u) => u.id)).toEqual(['3']);
+
+    const count = await usersTable.where('name').equals('John').and('createdAt').below(2000).count();
+    expect(count).toBe(1);
+
+    db.close();
+  });
+
+  it('should use compound indexes for multi-field conditions', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'name_age', keyPath: ['name', 'age'] }], [
+      { id: '1', name: 'John', email: 'john@example.com', age: 30, createdAt: 1000 },
+      { id: '2', name: 'Jane', email: 'jane@example.com', age: 25, createdAt: 2000 },
+      { id: '3', name: 'John', email: 'john2@example.com', age: 35, createdAt: 3000 },
+    ]);
+
+    const results = await usersTable.where('age').aboveOrEqual(31).and('name').equals('John').toArray();
+    expect(results.map((u) => u.id)).toEqual(['3']);
+
+    const exact = await usersTable.where('name').equals('John').and('age').equals(30).toArray();
+    expect(exact.map((u) => u.id)).toEqual(['1']);
+
+    db.close();
+  });
+
+  it('should union conditions with or()', async () => {
+    const { db, users: usersTable } = await openUsers([
+      { name: 'age', keyPath: 'age' },
+      { name: 'email', keyPath: 'email' },
+    ]);
+
+    const results = await usersTable.where('age').above(30).or('email').startsWith('j').toArray();
+    expect(results.map((u) => u.id)).toEqual(['1', '2', '3']);
+
+    const overlapping = await usersTable.where('age').above(20).or('email').equals('bob@example.com').count();
+    expect(overlapping).toBe(3);
+
+    const paged = await usersTable.where('age').above(30).or('age').below(30).reverse().limit(1).toArray();
+    expect(paged.map((u) => u.id)).toEqual(['3']);
+
+    db.close();
+  });
+
+  it('should match exactly the values passed to in()', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'name', keyPath: 'name' }], [
+      { id: '1', name: 'Alice', email: 'alice@example.com', age: 30, createdAt: 1000 },
+      { id: '2', name: 'Bob', email: 'bob@example.com', age: 25, createdAt: 2000 },
+      { id: '3', name: 'Mallory', email: 'mallory@example.com', age: 35, createdAt: 3000 },
+      { id: '4', name: 'Zed', email: 'zed@example.com', age: 40, createdAt: 4000 },
+    ]);
+
+    const results = await usersTable.where('name').in(['Zed', 'Alice']).toArray();
+    expect(results.map((u) => u.name)).toEqual(['Alice', 'Zed']);
+
+    const reversed = await usersTable.where('name').anyOf(['Zed', 'Alice', 'Nobody']).reverse().toArray();
+    expect(reversed.map((u) => u.name)).toEqual(['Zed', 'Alice']);
+
+    expect(await usersTable.where('name').in(['Alice', 'Zed']).count()).toBe(2);
+    expect(await usersTable.where('name').in([]).toArray()).toEqual([]);
+    expect(await usersTable.whereKey().in(['2', '3']).count()).toBe(2);
+
+    db.close();
+  });
+
+  it('should exclude values passed to notIn()', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'name', keyPath: 'name' }], [
+      { id: '1', name: 'Alice', email: 'alice@example.com', age: 30, createdAt: 1000 },
+      { id: '2', name: 'Bob', email: 'bob@example.com', age: 25, createdAt: 2000 },
+      { id: '3', name: 'Mallory', email: 'mallory@example.com', age: 35, createdAt: 3000 },
+    ]);
+
+    const results = await usersTable.where('name').notIn(['Bob']).toArray();
+    expect(results.map((u) => u.name)).toEqual(['Alice', 'Mallory']);
+
+    const filtered = await usersTable.where('age').above(20).and('name').noneOf(['Alice', 'Mallory']).toArray();
+    expect(filtered.map((u) => u.name)).toEqual(['Bob']);
+
+    expect(await usersTable.where('name').noneOf([]).count()).toBe(3);
+
+    db.close();
+  });
+
+  it('should filter with a predicate during the cursor walk', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'age', keyPath: 'age' }], [
+      { id: '1', name: 'John', email: 'john@example.com', age: 30, createdAt: 1000 },
+      { id: '2', name: 'Jane', email: 'jane@example.com', age: 25, createdAt: 2000 },
+      { id: '3', name: 'Bob', email: 'bob@example.com', age: 35, createdAt: 3000 },
+      { id: '4', name: 'Jill', email: 'jill@example.com', age: 40, createdAt: 4000 },
+    ]);
+
+    const results = await usersTable
+      .where('age')
+      .above(20)
+      .filter((u) => u.name.startsWith('J'))
+      .offset(1)
+      .limit(1)
+      .toArray();
+    expect(results.map((u) => u.id)).toEqual(['1']);
+
+    expect(await usersTable.filter((u) => u.age > 30).count()).toBe(2);
+
+    db.close();
+  });
+
+  it('should sort by an indexed field with a cursor', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'byAge', keyPath: 'age' }]);
+
+    const ascending = await usersTable.sortBy('age').toArray();
+    expect(ascending.map((u) => u.age)).toEqual([25, 30, 35]);
+
+    const descending = await usersTable.sortBy('age').reverse().limit(2).toArray();
+    expect(descending.map((u) => u.age)).toEqual([35, 30]);
+
+    db.close();
+  });
+
+  it('should sort in memory when no index covers the field', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'age', keyPath: 'age' }], [
+      { id: '1', name: 'John', email: 'john@example.com', age: 30, createdAt: 3000 },
+      { id: '2', name: 'Jane', email: 'jane@example.com', age: 25, createdAt: 1000 },
+      { id: '3', name: 'Bob', email: 'bob@example.com', age: 35, createdAt: 2000 },
+    ], { debug: true });
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const results = await usersTable.where('age').above(20).sortBy('createdAt').offset(1).toArray();
+    expect(results.map((u) => u.createdAt)).toEqual([2000, 3000]);
+    expect(warn).not.toHaveBeenCalledWith(expect.stringContaining('sorted'));
+
+    const byKey = await usersTable.where('age').above(20).sortBy('id').reverse().toArray();
+    expect(byKey.map((u) => u.id)).toEqual(['3', '2', '1']);
+
+    warn.mockRestore();
+    db.close();
+  });
+
+  it('should leave records without the sort field out of both sort paths', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'createdAt', keyPath: 'createdAt' }, { name: 'age', keyPath: 'age' }]);
+    await db.table('users').add({ id: '4', name: 'Ann', email: 'ann@example.com', age: 40 });
+
+    const byIndex = await usersTable.sortBy('createdAt').toArray();
+    expect(byIndex.map((u) => u.id)).toEqual(['1', '2', '3']);
+
+    const inMemory = await usersTable.where('age').above(20).sortBy('createdAt').reverse().toArray();
+    expect(inMemory.map((u) => u.id)).toEqual(['3', '2', '1']);
+
+    db.close();
+  });
+
+  it('should stream records in batches across index duplicates', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'age', keyPath: 'age' }], []);
+
+    // Five records share each age so batch boundaries fall inside duplicate keys
+    for (let i = 0; i < 20; i++) {
+      await usersTable.add({
+        id: String(i).padStart(2, '0'),
+        name: `User ${i}`,
+        email: `user${i}@example.com`,
+        age: 20 + (i % 4),
+        createdAt: i,
+      });
+    }
+
+    const batches: User[][] = [];
+    for await (const batch of usersTable.where('age').aboveOrEqual(21).batches(3)) {
+      batches.push(batch);
+    }
+    expect(batches.map((batch) => batch.length)).toEqual([3, 3, 3, 3, 3]);
+
+    const ids = batches.flat().map((u) => u.id);
+    expect(new Set(ids).size).toBe(15);
+    expect(batches.flat().map((u) => u.age)).toEqual([...Array<number>(5).fill(21), ...Array<number>(5).fill(22), ...Array<number>(5).fill(23)]);
+
+    const reversed: string[] = [];
+    for await (const batch of usersTable.where('age').equals(22).reverse().batches(2)) {
+      reversed.push(...batch.map((u) => u.id));
+    }
+    expect(reversed).toEqual(['18', '14', '10', '06', '02']);
+
+    db.close();
+  });
+
+  it('should iterate with for await and each() honouring offset and limit', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'age', keyPath: 'age' }], []);
+
+    for (let i = 0; i < 10; i++) {
+      await usersTable.add({ id: String(i), name: `User ${i}`, email: `user${i}@example.com`, age: 20 + i, createdAt: i });
+    }
+
+    const iterated: string[] = [];
+    for await (const user of usersTable.query().filter((u) => u.age % 2 === 0).offset(1).limit(3)) {
+      iterated.push(user.id);
+    }
+    expect(iterated).toEqual(['2', '4', '6']);
+
+    const visited: Array<[string, number]> = [];
+    await usersTable.where('age').below(25).each(async (user, index) => {
+      // Awaiting between records is safe because each chunk's transaction has already finished
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      visited.push([user.id, index]);
+    });
+    expect(visited).toEqual([['0', 0], ['1', 1], ['2', 2], ['3', 3], ['4', 4]]);
+
+    const union: string[] = [];
+    for await (const user of usersTable.where('age').equals(29).or('age').equals(20)) {
+      union.push(user.id);
+    }
+    expect(union).toEqual(['0', '9']);
+
+    db.close();
+  });
+
+  it('should paginate with continuation tokens', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'age', keyPath: 'age' }], []);
+
+    for (let i = 0; i < 10; i++) {
+      await usersTable.add({ id: String(i), name: `User ${i}`, email: `user${i}@example.com`, age: 20 + (i % 3), createdAt: i });
+    }
+
+    const expected = (await usersTable.where('age').above(20).toArray()).map((u) => u.id);
+
+    const pages: string[][] = [];
+    let after: string | null = null;
+    do {
+      const page = await usersTable.where('age').above(20).page({ after, size: 2 });
+      pages.push(page.items.map((u) => u.id));
+      after = page.next;
+    } while (after !== null);
+
+    expect(pages.flat()).toEqual(expected);
+    expect(pages[0]).toHaveLength(2);
+
+    // A token only encodes the position, so a fresh query resumes from it
+    const first = await usersTable.where('age').above(20).page({ size: 3 });
+    const second = await usersTable.where('age').above(20).page({ after: first.next, size: 3 });
+    expect(second.items.map((u) => u.id)).toEqual(expected.slice(3, 6));
+
+    await expect(usersTable.query().page({ after: 'not a token', size: 2 })).rejects.toThrow('Invalid page token');
+
+    db.close();
+  });
+
+  it('should paginate OR queries with offset tokens', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'age', keyPath: 'age' }], []);
+
+    for (let i = 0; i < 5; i++) {
+      await usersTable.add({ id: String(i), name: `User ${i}`, email: `user${i}@example.com`, age: 20 + i, createdAt: i });
+    }
+
+    const first = await usersTable.where('age').below(22).or('age').above(22).page({ size: 3 });
+    expect(first.items.map((u) => u.id)).toEqual(['0', '1', '3']);
+
+    const second = await usersTable.where('age').below(22).or('age').above(22).page({ after: first.next, size: 3 });
+    expect(second.items.map((u) => u.id)).toEqual(['4']);
+    expect(second.next).toBeNull();
+
+    const keyset = await usersTable.where('age').above(20).page({ size: 2 });
+    await expect(
+      usersTable.where('age').below(22).or('age').above(22).page({ after: keyset.next, size: 2 })
+    ).rejects.toThrow('Page token does not match this query');
+
+    db.close();
+  });
+
+  it('should let the page size replace limit() on both pagination paths', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'age', keyPath: 'age' }], []);
+
+    for (let i = 0; i < 5; i++) {
+      await usersTable.add({ id: String(i), name: `User ${i}`, email: `user${i}@example.com`, age: 20 + i, createdAt: i });
+    }
+
+    const keyset = await usersTable.where('age').above(20).limit(1).page({ size: 3 });
+    expect(keyset.items.map((u) => u.id)).toEqual(['1', '2', '3']);
+
+    const first = await usersTable.where('age').below(22).or('age').above(22).limit(1).page({ size: 3 });
+    expect(first.items.map((u) => u.id)).toEqual(['0', '1', '3']);
+
+    const second = await usersTable.where('age').below(22).or('age').above(22).limit(1).page({ after: first.next, size: 3 });
+    expect(second.items.map((u) => u.id)).toEqual(['4']);
+    expect(second.next).toBeNull();
+
+    db.close();
+  });
+
+  it('should reject offset tokens on queries that page by cursor', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'age', keyPath: 'age' }]);
+
+    const offset = await usersTable.where('age').below(26).or('age').above(26).page({ size: 1 });
+    expect(offset.next).not.toBeNull();
+
+    await expect(
+      usersTable.where('age').above(20).page({ after: offset.next, size: 1 })
+    ).rejects.toThrow('Page token does not match this query: it holds an offset, but this query pages by cursor position');
+
+    db.close();
+  });
+
+  it('should return index keys and primary keys without records', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'age', keyPath: 'age' }]);
+
+    expect(await usersTable.where('age').above(26).keys()).toEqual([30, 35]);
+    expect(await usersTable.where('age').above(26).primaryKeys()).toEqual(['1', '3']);
+    expect(await usersTable.where('age').above(20).limit(2).primaryKeys()).toEqual(['2', '1']);
+    expect(await usersTable.where('age').above(20).reverse().primaryKeys()).toEqual(['3', '1', '2']);
+    expect(await usersTable.query().filter((u) => u.name.startsWith('J')).primaryKeys()).toEqual(['1', '2']);
+    expect(await usersTable.where('age').equals(25).or('age').equals(35).primaryKeys()).toEqual(['2', '3']);
+
+    db.close();
+  });
+
+  it('should project selected fields', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'age', keyPath: 'age' }], [
+      { id: '1', name: 'John', email: 'john@example.com', age: 30, createdAt: 1000 },
+      { id: '2', name: 'Jane', email: 'jane@example.com', age: 25, createdAt: 2000 },
+    ]);
+
+    // Covered by the age index and the primary key
+    const fromKeys = await usersTable.where('age').above(20).select(['id', 'age']).toArray();
+    expect(fromKeys).toEqual([{ id: '2', age: 25 }, { id: '1', age: 30 }]);
+    expectTypeOf(fromKeys).toEqualTypeOf<Array<Pick<User, 'id' | 'age'>>>();
+
+    const fromValues = await usersTable.query().select(['name']).first();
+    expect(fromValues).toEqual({ name: 'John' });
+
+    const streamed: Array<Pick<User, 'email'>> = [];
+    for await (const user of usersTable.where('age').above(20).select(['email'])) {
+      streamed.push(user);
+    }
+    expect(streamed).toEqual([{ email: 'jane@example.com' }, { email: 'john@example.com' }]);
+
+    db.close();
+  });
+
+  it('should aggregate with sum, avg, min and max', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'age', keyPath: 'age' }]);
+
+    expect(await usersTable.query().sum('age')).toBe(90);
+    expect(await usersTable.where('age').above(25).sum('createdAt')).toBe(4000);
+    expect(await usersTable.query().avg('age')).toBe(30);
+    expect(await usersTable.where('age').above(99).avg('age')).toBeUndefined();
+
+    // Index ends
+    expect(await usersTable.query().min('age')).toBe(25);
+    expect(await usersTable.query().max('age')).toBe(35);
+    expect(await usersTable.where('age').below(35).max('age')).toBe(30);
+    expect(await usersTable.query().filter((u) => u.name !== 'Jane').min('age')).toBe(30);
+
+    // No index on the field
+    expect(await usersTable.query().min('createdAt')).toBe(1000);
+    expect(await usersTable.where('age').below(31).max('createdAt')).toBe(2000);
+    expect(await usersTable.query().max('missing')).toBeUndefined();
+
+    db.close();
+  });
+
+  it('should compute distinct values and groups', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'age', keyPath: 'age' }], [
+      { id: '1', name: 'John', email: 'john@example.com', age: 30, createdAt: 1000 },
+      { id: '2', name: 'Jane', email: 'jane@example.com', age: 25, createdAt: 1000 },
+      { id: '3', name: 'Bob', email: 'bob@example.com', age: 30, createdAt: 3000 },
+      { id: '4', name: 'Jill', email: 'jill@example.com', age: 25, createdAt: 2000 },
+    ]);
+
+    expect(await usersTable.query().distinct('age')).toEqual([25, 30]);
+    expect(await usersTable.query().distinct('createdAt')).toEqual([1000, 2000, 3000]);
+    expect(await usersTable.query().filter((u) => u.id !== '2').distinct('age')).toEqual([25, 30]);
+    expect(await usersTable.query().filter((u) => u.name.startsWith('J')).distinct('createdAt')).toEqual([1000, 2000]);
+
+    const counts = await usersTable.query().groupBy('age');
+    expect(Array.from(counts.entries())).toEqual([[25, 2], [30, 2]]);
+
+    const names = await usersTable
+      .where('age')
+      .aboveOrEqual(25)
+      .groupBy('createdAt', (list: string[], user) => [...list, user.name], []);
+    expect(Array.from(names.entries())).toEqual([[1000, ['Jane', 'John']], [2000, ['Jill']], [3000, ['Bob']]]);
+
+    db.close();
+  });
+
+  it('should read plain queries in bulk with limits across ranges', async () => {
+    const { db, users: usersTable } = await openUsers([{ name: 'age', keyPath: 'age' }]);
+
+    const limited = await usersTable.where('age').in([35, 25, 30]).limit(2).toArray();
+    expect(limited.map((u) => u.id)).toEqual(['2', '1']);
+
+    const projected = await usersTable.where('age').in([35, 30]).select(['name']).toArray();
+    expect(projected).toEqual([{ name: 'John' }, { name: 'Bob' }]);
+
+    expect(await usersTable.where('age').in([]).toArray()).toEqual([]);
+    expect(await usersTable.where('age').notIn([30]).primaryKeys()).toEqual(['2', '3']);
+
+    const getAll = vi.spyOn(IDBIndex.prototype, 'getAll');
+    expect(await usersTable.where('age').in([35, 25]).limit(0).toArray()).toEqual([]);
+    expect(getAll).not.toHaveBeenCalled();
+    getAll.mockRestore();
+
+    db.close();
+  });
+
+  it('should modify matching records in one transaction', async () => {
+    const db = await openTestDB({
+      users: {
+        primaryKey: 'id',
+        indexes: [{ name: 'age', keyPath: 'age' }],
+        versioned: true,
+      },
+    });
+    const usersTable = db.table<User & { _version?: number }>('users');
+
+    await usersTable.add({ id: '1', name: 'John', email: 'john@example.com', age: 30, createdAt: 1000 });
+    await usersTable.add({ id: '2', name: 'Jane', email: 'jane@example.com', age: 25, createdAt: 2000 });
+    await usersTable.add({ id: '3', name: 'Bob', email: 'bob@example.com', age: 35, createdAt: 3000 });
+
+    // Each update moves the record further along the age index; it is still modified once
+    expect(await usersTable.where('age').above(20).modify((user) => {
+      user.age += 10;
+    })).toBe(3);
+    expect((await usersTable.query().toArray()).map((u) => [u.age, u._version])).toEqual([[40, 2], [35, 2], [45, 2]]);
+
+    expect(await usersTable.where('age').below(42).limit(1).modify((user) => ({ ...user, name: 'Young' }))).toBe(1);
+    expect((await usersTable.get('2'))?.name).toBe('Young');
+
+    expect(await usersTable.where('age').equals(40).or('age').equals(45).modify((user) => {
+      user.email = 'x';
+    })).toBe(2);
+    expect(await usersTable.where('email').equals('x').count()).toBe(2);
+
+    await expect(usersTable.query().modify((user) => {
+      if (user.id === '3') {
+        throw new Error('stop');
+      }
+      user.name = 'changed';
+    })).rejects.toThrow('stop');
+    expect(await usersTable.filter((u) => u.name === 'changed').count()).toBe(0);
+
+    db.close();
+  });
 });
@@ -1,180 +1,1548 @@
 import type { Database } from '../database/database.js';
-import type { QueryDirection } from '../types/store.js';
+import type { QueryDirection, QueryPage, QueryPageOptions, QueryProjection } from '../types/store.js';
+import type { LiveQueryOptions, LiveQuerySubscription } from '../types/live.js';
 import { TransactionAbortedError, StorageEvictedError, QuotaExceededError } from '../errors/index.js';
+import {
+  getValueByKeyPath,
+  isValidKey,
+  rangesInclude,
+  isEqualityRange,
+  rangesForKeys,
+  complementRanges,
+  coverRanges,
+  seekRanges,
+  rangesFrom,
+  serializeKey,
+  deserializeKey,
+} from '../utils/key-range.js';
+import { getVersionField } from '../utils/version.js';
+import { applyModifier } from './modify.js';
+import type { Modifier } from './modify.js';
+import { openStoreTransaction } from '../transaction/store-transaction.js';
+import { undoableWrites } from '../transaction/savepoint.js';
+import type { Savepoint } from '../transaction/savepoint.js';
+import type { TransactionMode } from '../types/transaction.js';
+
+/**
+ * In-memory sorts above this many records log a warning in debug mode
+ */
+const LARGE_SORT_WARNING_THRESHOLD = 1000;
+
+/**
+ * A single where condition on an index (or the primary key when indexName is null)
+ */
+interface QueryCondition {
+  /** Index name, field name, or null for the primary key */
+  indexName: string | null;
+  /** Sorted, disjoint key ranges the value must fall in (null matches any key) */
+  ranges: IDBKeyRange[] | null;
+}
+
+/**
+ * Execution plan for one group of AND-ed conditions
+ */
+interface QueryPlan {
+  /** Index to open the cursor on (null for the object store itself) */
+  indexName: string | null;
+  /** Sorted, disjoint key ranges for the cursor (null walks the whole source) */
+  ranges: IDBKeyRange[] | null;
+  /** Conditions that could not be served by the cursor and are checked per record */
+  filters: QueryCondition[];
+}
+
+/**
+ * Key, primary key and (unless read with a key cursor) value of a cursor entry
+ */
+interface CursorEntry {
+  key: IDBValidKey;
+  primaryKey: IDBValidKey;
+  value: unknown;
+}
+
+/**
+ * How a query turns cursor entries into results
+ */
+interface EntryReader<R> {
+  /** The result only needs keys, so a key cursor can skip loading values */
+  keysOnly: boolean;
+  read: (entry: CursorEntry) => R;
+  /** Read a plain range with one getAll()/getAllKeys() request instead of a cursor */
+  readRange?: {
+    request: (
+      source: IDBObjectStore | IDBIndex,
+      range: IDBKeyRange | null,
+      count?: number
+    ) => IDBRequest<unknown[]> | IDBRequest<IDBValidKey[]>;
+    read: (item: unknown) => R;
+  };
+}
+
+/**
+ * Copy the selected fields of a record (missing fields are left out)
+ */
+function pickFields(record: unknown, fields: string[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = getValueByKeyPath(record, field);
+    if (value !== undefined) {
+      picked[field] = value;
+    }
+  }
+  return picked;
+}
+
+/**
+ * Find the group for a key in a key-sorted group list, creating it when missing
+ */
+function findGroup<V>(
+  groups: Array<{ key: IDBValidKey; value: V }>,
+  key: IDBValidKey,
+  create: () => V
+): { key: IDBValidKey; value: V } {
+  let low = 0;
+  let high = groups.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    const group = groups[mid] as { key: IDBValidKey; value: V };
+    const order = indexedDB.cmp(group.key, key);
+    if (order === 0) {
+      return group;
+    }
+    if (order < 0) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  const group = { key, value: create() };
+  groups.splice(low, 0, group);
+  return group;
+}
+
+/**
+ * Cursor position a streamed query resumes after
+ */
+interface CursorPosition {
+  key: IDBValidKey;
+  primaryKey: IDBValidKey;
+}
+
+/**
+ * Encode a cursor position (or an offset for in-memory results) as an opaque page token
+ */
+function encodePageToken(position: CursorPosition | number): string {
+  const payload = typeof position === 'number'
+    ? { o: position }
+    : { k: serializeKey(position.key), p: serializeKey(position.primaryKey) };
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Decode a page token produced by `encodePageToken()`
+ */
+function decodePageToken(token: string): CursorPosition | number {
+  try {
+    const bytes = Uint8Array.from(atob(token), (char) => char.charCodeAt(0));
+    const payload = JSON.parse(new TextDecoder().decode(bytes)) as { o?: unknown; k?: unknown; p?: unknown };
+    if (typeof payload.o === 'number') {
+      return payload.o;
+    }
+    return { key: deserializeKey(payload.k), primaryKey: deserializeKey(payload.p) };
+  } catch {
+    throw new Error('Invalid page token');
+  }
+}
+
+/**
+ * Offset and limit still to apply while reading chunks
+ */
+interface ChunkProgress {
+  skip: number;
+  remaining: number | null;
+}
+
+/**
+ * One chunk of a streamed query
+ */
+interface QueryChunk<T> {
+  values: T[];
+  /** Position of the last record read (null when nothing was read) */
+  last: CursorPosition | null;
+  /** No more records after this chunk */
+  done: boolean;
+}
 
 /**
  * Query builder for table operations
+ *
+ * Conditions added with `where()`/`and()` are AND-ed together; `or()` starts a new
+ * group that is OR-ed with the previous ones. Each group uses a matching compound
+ * index when one exists and otherwise walks the best single index, filtering the
+ * remaining conditions during the cursor walk.
  */
-export class Query<T = unknown> {
+export class Query<T = unknown> implements AsyncIterable<T> {
   private readonly db: Database;
   private readonly storeName: string;
-  private indexName: string | null = null;
-  private keyRange: IDBKeyRange | null = null;
+  private readonly groups: QueryCondition[][] = [[]];
+  /** Filter predicates, stored untyped so a `Query<T>` stays assignable to `Query<unknown>` */
+  private readonly predicates: Array<(record: unknown) => boolean> = [];
+  private sortField: string | null = null;
+  private projection: string[] | null = null;
   private direction: QueryDirection = 'next';
   private limitCount: number | null = null;
   private offsetCount: number = 0;
+  /** Transaction every read runs in (set for queries on `ctx.table()` handles) */
+  private readonly transaction?: IDBTransaction;
+  /** Undo log of the `ctx.savepoint()` scope this handle belongs to */
+  private readonly savepoint: Savepoint | null;
+
+  constructor(db: Database, storeName: string, transaction?: IDBTransaction, savepoint: Savepoint | null = null) {
+    this.db = db;
+    this.storeName = storeName;
+    this.transaction = transaction;
+    this.savepoint = savepoint;
+  }
+
+  /**
+   * Query by index
+   */
+  where(indexName: string): QueryWhere<T> {
+    return new QueryWhere(this, indexName);
+  }
+
+  /**
+   * Query by primary key
+   */
+  whereKey(): QueryWhere<T> {
+    return new QueryWhere(this, null); // Use primary key
+  }
+
+  /**
+   * Add a condition on another index or field (AND)
+   */
+  and(indexName: string): QueryWhere<T> {
+    return new QueryWhere(this, indexName);
+  }
+
+  /**
+   * Add an alternative condition on another index or field (OR)
+   */
+  or(indexName: string): QueryWhere<T> {
+    return new QueryWhere(this, indexName, true);
+  }
+
+  /**
+   * Set sort direction
+   */
+  orderBy(direction: QueryDirection = 'next'): this {
+    this.direction = direction;
+    return this;
+  }
+
+  /**
+   * Reverse sort order
+   */
+  reverse(): this {
+    this.direction = this.direction === 'next' ? 'prev' : 'next';
+    return this;
+  }
+
+  /**
+   * Sort results by a field
+   * Uses the cursor order when the walked index (or primary key) is the field,
+   * otherwise sorts the matching records in memory. Either way, records without
+   * a valid key in the field are left out, as they are from an index.
+   */
+  sortBy(field: string): this {
+    this.sortField = field;
+    return this;
+  }
+
+  /**
+   * Keep only records matching a predicate (evaluated during the cursor walk)
+   */
+  filter(predicate: (record: T) => boolean): this {
+    this.predicates.push(predicate as (record: unknown) => boolean);
+    return this;
+  }
+
+  /**
+   * Return only the given fields of each record
+   * When every field is part of the walked index key or the primary key, records
+   * are built from a key cursor without loading the stored values.
+   */
+  select<K extends (unknown extends T ? string : keyof T & string)>(fields: K[]): Query<QueryProjection<T, K>> {
+    this.projection = [...fields];
+    return this as unknown as Query<QueryProjection<T, K>>;
+  }
+
+  /**
+   * Limit number of results
+   */
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  /**
+   * Skip number of results
+   */
+  offset(count: number): this {
+    this.offsetCount = count;
+    return this;
+  }
+
+  /**
+   * Execute query and return all results
+   * Queries without offset, filters or reverse order are read with getAll().
+   */
+  async toArray(): Promise<T[]> {
+    return this.collect('toArray', (store, plan) => this.recordReader(store, plan));
+  }
+
+  /**
+   * Keys of the walked index (primary keys for store queries) for every match
+   * Uses a key cursor, so record values are never loaded unless a filter needs them.
+   */
+  async keys(): Promise<IDBValidKey[]> {
+    return this.collect('keys', () => ({ keysOnly: true, read: (entry) => entry.key }));
+  }
+
+  /**
+   * Primary keys of every match
+   * Queries without offset, filters or reverse order read them with getAllKeys().
+   */
+  async primaryKeys(): Promise<IDBValidKey[]> {
+    return this.collect('primaryKeys', () => ({
+      keysOnly: true,
+      read: (entry) => entry.primaryKey,
+      readRange: {
+        request: (source, range, count) => source.getAllKeys(range, count),
+        read: (key) => key as IDBValidKey,
+      },
+    }));
+  }
+
+  /**
+   * Execute query and return first result
+   */
+  async first(): Promise<T | undefined> {
+    const results = await this.limit(1).toArray();
+    return results[0];
+  }
+
+  /**
+   * Iterate matching records, reading them in chunks
+   * (`for await (const record of query)`)
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for await (const batch of this.batches()) {
+      yield* batch;
+    }
+  }
+
+  /**
+   * Call a callback for every matching record, reading them in chunks
+   * The callback may be async; it runs between transactions, never inside one.
+   */
+  async each(callback: (record: T, index: number) => void | Promise<void>): Promise<void> {
+    let index = 0;
+    for await (const batch of this.batches()) {
+      for (const record of batch) {
+        await callback(record, index++);
+      }
+    }
+  }
+
+  /**
+   * Pass every matching record to `modifier` and write the results back, all in
+   * one readwrite transaction; resolves to the number of records modified
+   * Records are edited with `cursor.update()`; OR queries and in-memory sorts read
+   * every match first and write them with `put()` in the same transaction. A record
+   * is modified at most once, even when its update moves it along an index walk.
+   * If the modifier throws or changes a primary key, nothing is written.
+   */
+  async modify(modifier: Modifier<T>): Promise<number> {
+    const versionField = getVersionField(this.db.schema.stores[this.storeName]);
+    const transaction = await this.openTransaction('readwrite', 'modify');
+
+    return new Promise((resolve, reject) => {
+      const store = transaction.objectStore(this.storeName);
+      const modifiedKeys: IDBValidKey[] = [];
+      const seen = new Set<string>();
+      this.db.getChangeTracker().trackWrite(transaction, [{ store: this.storeName, type: 'update', keys: modifiedKeys }]);
+
+      const fail = (error: Error): void => {
+        if (!this.transaction) {
+          // Undo the writes already issued; a bound transaction is aborted by its callback
+          try {
+            transaction.abort();
+          } catch {
+            // Already finished
+          }
+        }
+        reject(error);
+      };
+      const onError = (error: DOMException | null): void => {
+        if (error) {
+          fail(this.handleError(error, 'modify'));
+        } else {
+          fail(new TransactionAbortedError('Failed to modify records', { storeNames: [this.storeName] }));
+        }
+      };
+      // Marks a match as taken, or returns false when it was already modified
+      const claim = (entry: CursorEntry): boolean => {
+        const id = JSON.stringify(serializeKey(entry.primaryKey));
+        if (seen.has(id)) {
+          return false;
+        }
+        seen.add(id);
+        return true;
+      };
+      const modifyEntry = (entry: CursorEntry): T => {
+        modifiedKeys.push(entry.primaryKey);
+        return applyModifier(this.storeName, store.keyPath, entry.primaryKey, entry.value as T, modifier, versionField);
+      };
+
+      const { plans, sortKeyPath } = this.planSort(store, this.getPlans(store));
+      const single = plans.length > 1 ? null : plans[0] ?? this.emptyPlan();
+
+      if (!single || sortKeyPath !== null) {
+        // OR groups or in-memory sorts need every match before paging
+        this.collectEntries(store, plans, false, (entries) => {
+          const sorted = sortKeyPath !== null ? this.sortInMemory(entries, sortKeyPath) : entries;
+          const end = this.limitCount !== null ? this.offsetCount + this.limitCount : undefined;
+          let records: T[];
+          try {
+            records = sorted.slice(this.offsetCount, end).map(modifyEntry);
+          } catch (error) {
+            fail(error instanceof Error ? error : new Error(String(error)));
+            return;
+          }
+
+          let pending = records.length;
+          if (pending === 0) {
+            resolve(0);
+            return;
+          }
+          for (const record of records) {
+            const request = undoableWrites(store, this.savepoint).put(record);
+            request.onsuccess = (): void => {
+              pending--;
+              if (pending === 0) {
+                resolve(modifiedKeys.length);
+              }
+            };
+            request.onerror = (): void => onError(request.error);
+          }
+        }, onError);
+        return;
+      }
+
+      let skipped = 0;
+      let failed = false;
+
+      this.walkPlan(store, single, (entry, cursor) => {
+        // Records whose update moved them further along the cursor come back; skip them
+        if (!claim(entry)) {
+          return true;
+        }
+        if (skipped < this.offsetCount) {
+          skipped++;
+          return true;
+        }
+        if (this.limitCount !== null && modifiedKeys.length >= this.limitCount) {
+          return false;
+        }
+
+        try {
+          const request = undoableWrites(store, this.savepoint).update(cursor as IDBCursorWithValue, modifyEntry(entry));
+          request.onerror = (): void => {
+            failed = true;
+            onError(request.error);
+          };
+        } catch (error) {
+          failed = true;
+          fail(error instanceof Error ? error : new Error(String(error)));
+          return false;
+        }
+        return true;
+      }, () => {
+        if (!failed) {
+          resolve(modifiedKeys.length);
+        }
+      }, onError);
+    });
+  }
+
+  /**
+   * Stream matching records in batches, one short readonly transaction per batch
+   * Each batch resumes after the last record of the previous one, so a large store
+   * is never read in a single long transaction (see `largeTransactionIssues`).
+   * OR queries and in-memory sorts need every match first and are read in one pass.
+   */
+  async *batches(size: number = this.db.getQuirks().recommendedBatchSize): AsyncGenerator<T[], void, undefined> {
+    if (size < 1) {
+      throw new Error('Batch size must be at least 1');
+    }
+
+    const progress: ChunkProgress = { skip: this.offsetCount, remaining: this.limitCount };
+    let after: CursorPosition | null = null;
+
+    for (;;) {
+      const chunk = await this.readChunk(after, size, progress);
+
+      if (chunk === null) {
+        const values = await this.toArray();
+        for (let i = 0; i < values.length; i += size) {
+          yield values.slice(i, i + size);
+        }
+        return;
+      }
+
+      if (chunk.values.length > 0) {
+        yield chunk.values;
+      }
+      if (chunk.done || !chunk.last) {
+        return;
+      }
+      after = chunk.last;
+    }
+  }
+
+  /**
+   * Read one page using keyset pagination
+   * The token stores the last index key and primary key, so every page costs the
+   * same however deep it is. `offset()` applies before the first page only and
+   * `limit()` is replaced by `size`. OR queries and in-memory sorts fall back to
+   * offset tokens over the full result; passing a token of the other kind throws.
+   */
+  async page(options: QueryPageOptions): Promise<QueryPage<T>> {
+    const { after = null, size } = options;
+    if (size < 1) {
+      throw new Error('Page size must be at least 1');
+    }
+
+    const position = after ? decodePageToken(after) : null;
+
+    if (typeof position === 'number' && (await this.pagesByCursor())) {
+      // An offset token only resumes a query that pages by offset
+      throw new Error('Page token does not match this query: it holds an offset, but this query pages by cursor position');
+    }
+
+    if (typeof position !== 'number') {
+      const progress: ChunkProgress = { skip: position ? 0 : this.offsetCount, remaining: null };
+      const chunk = await this.readChunk(position, size, progress);
+      if (chunk) {
+        return {
+          items: chunk.values,
+          next: chunk.done || !chunk.last ? null : encodePageToken(chunk.last),
+        };
+      }
+    }
+
+    if (position !== null && typeof position !== 'number') {
+      // A cursor token only resumes the query it came from
+      throw new Error('Page token does not match this query: it holds a cursor position, but this query pages by offset');
+    }
+
+    const start = position ?? 0;
+    const values = await this.collect('page', (store, plan) => this.recordReader(store, plan), null);
+    return {
+      items: values.slice(start, start + size),
+      next: start + size < values.length ? encodePageToken(start + size) : null,
+    };
+  }
+
+  /**
+   * Emit the results now and again whenever a committed write may change them
+   * Returns a subscription whose `unsubscribe()` stops the updates.
+   */
+  subscribe(
+    onNext: (results: T[]) => void,
+    onError?: (error: Error) => void,
+    options?: LiveQueryOptions
+  ): LiveQuerySubscription {
+    return this.db.liveQuery(() => this.toArray(), options).subscribe(onNext, onError);
+  }
+
+  /**
+   * Count matching records
+   */
+  async count(): Promise<number> {
+    this.trackRead();
+    const transaction = await this.openTransaction('readonly', 'count');
+
+    return new Promise((resolve, reject) => {
+      const store = transaction.objectStore(this.storeName);
+      const plans = this.getPlans(store);
+      const onError = (error: DOMException | null): void => {
+        if (error) {
+          reject(this.handleError(error, 'count'));
+        } else {
+          reject(new TransactionAbortedError('Failed to count query results', { storeNames: [this.storeName] }));
+        }
+      };
+
+      if (plans.length > 1) {
+        this.collectUnion(store, plans, true, (entries) => resolve(entries.length), onError);
+        return;
+      }
+
+      const plan = plans[0] ?? this.emptyPlan();
+
+      if (plan.filters.length > 0 || this.predicates.length > 0) {
+        let count = 0;
+        this.walkPlan(store, plan, () => {
+          count++;
+          return true;
+        }, () => resolve(count), onError, { keysOnly: true });
+        return;
+      }
+
+      const source = plan.indexName
+        ? store.index(plan.indexName)
+        : store;
+
+      // Count each range separately and sum the results
+      const ranges = plan.ranges ?? [null];
+      let total = 0;
+      let pending = ranges.length;
+
+      if (pending === 0) {
+        resolve(0);
+        return;
+      }
+
+      for (const range of ranges) {
+        const request = range
+          ? source.count(range)
+          : source.count();
+
+        request.onsuccess = (): void => {
+          total += request.result;
+          pending--;
+          if (pending === 0) {
+            resolve(total);
+          }
+        };
+
+        request.onerror = (): void => {
+          onError(request.error);
+        };
+      }
+    });
+  }
+
+  /**
+   * Sum a numeric field over every match (non-numeric values are ignored)
+   */
+  async sum(field: string): Promise<number> {
+    let total = 0;
+    await this.scanField('sum', field, (value) => {
+      if (typeof value === 'number') {
+        total += value;
+      }
+      return true;
+    });
+    return total;
+  }
+
+  /**
+   * Average of a numeric field over every match, or undefined when no value is numeric
+   */
+  async avg(field: string): Promise<number | undefined> {
+    let total = 0;
+    let count = 0;
+    await this.scanField('avg', field, (value) => {
+      if (typeof value === 'number') {
+        total += value;
+        count++;
+      }
+      return true;
+    });
+    return count > 0 ? total / count : undefined;
+  }
+
+  /**
+   * Smallest value of a field, read from the start of its index when there is one
+   */
+  async min(field: string): Promise<IDBValidKey | undefined> {
+    return this.extreme('min', field, 'next');
+  }
+
+  /**
+   * Largest value of a field, read from the end of its index when there is one
+   */
+  async max(field: string): Promise<IDBValidKey | undefined> {
+    return this.extreme('max', field, 'prev');
+  }
+
+  /**
+   * Distinct values of a field in key order
+   * With an index on the field and no residual filters, a `nextunique` cursor
+   * visits each value once instead of every record.
+   */
+  async distinct(field: string): Promise<IDBValidKey[]> {
+    const values: IDBValidKey[] = [];
+
+    const unique = await this.scanField('distinct', field, (value) => {
+      values.push(value as IDBValidKey);
+      return true;
+    }, { direction: 'nextunique', indexOnly: true });
+
+    if (unique) {
+      return values;
+    }
+
+    const groups: Array<{ key: IDBValidKey; value: null }> = [];
+    await this.scanField('distinct', field, (value) => {
+      if (isValidKey(value)) {
+        findGroup(groups, value, () => null);
+      }
+      return true;
+    });
+    return groups.map((group) => group.key);
+  }
+
+  /**
+   * Group matches by a field: counts per value, or values reduced with `reducer`
+   * Groups are returned in key order; records without a valid field value are skipped.
+   */
+  async groupBy(field: string): Promise<Map<IDBValidKey, number>>;
+  async groupBy<A>(field: string, reducer: (accumulator: A, record: T) => A, initial: A): Promise<Map<IDBValidKey, A>>;
+  async groupBy<A>(
+    field: string,
+    reducer?: (accumulator: A, record: T) => A,
+    initial?: A
+  ): Promise<Map<IDBValidKey, A | number>> {
+    const groups: Array<{ key: IDBValidKey; value: A | number }> = [];
+
+    await this.scanField('groupBy', field, (value, record) => {
+      if (!isValidKey(value)) {
+        return true;
+      }
+      if (reducer) {
+        const group = findGroup<A | number>(groups, value, () => initial as A);
+        group.value = reducer(group.value as A, record as T);
+      } else {
+        const group = findGroup<A | number>(groups, value, () => 0);
+        group.value = (group.value as number) + 1;
+      }
+      return true;
+    }, { keysOnly: !reducer });
+
+    return new Map(groups.map((group) => [group.key, group.value]));
+  }
+
+  /**
+   * Add a condition (internal use by QueryWhere)
+   */
+  addCondition(indexName: string | null, ranges: IDBKeyRange[] | null, newGroup: boolean = false): void {
+    const current = this.groups[this.groups.length - 1];
+    if (newGroup && current && current.length > 0) {
+      this.groups.push([{ indexName, ranges }]);
+    } else {
+      current?.push({ indexName, ranges });
+    }
+  }
+
+  /**
+   * Run the query in one transaction and read every match with `reader`
+   * `reader` gets the single plan, or null for OR unions. `limit` replaces `limit()`.
+   */
+  private async collect<R>(
+    operation: string,
+    reader: (store: IDBObjectStore, plan: QueryPlan | null) => EntryReader<R>,
+    limit: number | null = this.limitCount
+  ): Promise<R[]> {
+    this.trackRead();
+    const transaction = await this.openTransaction('readonly', operation);
+
+    return new Promise((resolve, reject) => {
+      const store = transaction.objectStore(this.storeName);
+      const onError = (error: DOMException | null): void => {
+        if (error) {
+          reject(this.handleError(error, operation));
+        } else {
+          reject(new TransactionAbortedError('Failed to execute query', { storeNames: [this.storeName] }));
+        }
+      };
+
+      const { plans, sortKeyPath } = this.planSort(store, this.getPlans(store));
+      const single = plans.length > 1 ? null : plans[0] ?? this.emptyPlan();
+      const { keysOnly, read, readRange } = reader(store, single);
+
+      if (!single || sortKeyPath !== null) {
+        // OR groups or in-memory sorts need every match before paging
+        this.collectEntries(store, plans, keysOnly && sortKeyPath === null, (entries) => {
+          const sorted = sortKeyPath !== null ? this.sortInMemory(entries, sortKeyPath) : entries;
+          const end = limit !== null ? this.offsetCount + limit : undefined;
+          resolve(sorted.slice(this.offsetCount, end).map(read));
+        }, onError);
+        return;
+      }
+
+      if (
+        readRange &&
+        this.direction === 'next' &&
+        this.offsetCount === 0 &&
+        single.filters.length === 0 &&
+        this.predicates.length === 0
+      ) {
+        this.readRanges(store, single, readRange, limit, resolve, onError);
+        return;
+      }
+
+      const results: R[] = [];
+      let skipped = 0;
+
+      this.walkPlan(store, single, (entry) => {
+        // Handle offset
+        if (skipped < this.offsetCount) {
+          skipped++;
+          return true;
+        }
+
+        // Handle limit
+        if (limit !== null && results.length >= limit) {
+          return false;
+        }
+
+        results.push(read(entry));
+        return true;
+      }, () => resolve(results), onError, { keysOnly });
+    });
+  }
+
+  /**
+   * First valid field value in the given direction
+   */
+  private async extreme(operation: string, field: string, direction: 'next' | 'prev'): Promise<IDBValidKey | undefined> {
+    let result: IDBValidKey | undefined;
+
+    const fromIndex = await this.scanField(operation, field, (value) => {
+      result = value as IDBValidKey;
+      return false;
+    }, { direction, indexOnly: true });
+
+    if (fromIndex) {
+      return result;
+    }
+
+    await this.scanField(operation, field, (value) => {
+      if (isValidKey(value) && (result === undefined || indexedDB.cmp(value, result) === (direction === 'next' ? -1 : 1))) {
+        result = value;
+      }
+      return true;
+    });
+    return result;
+  }
+
+  /**
+   * Visit the field value (and record, unless only keys were read) of every match
+   * in one transaction without collecting them.
+   *
+   * When the query has no offset/limit and walks nothing but the field's own index
+   * (or primary key), that index is walked in `direction` and the values come from
+   * its keys (unique directions also need every index entry to be a match).
+   * Otherwise every match is walked in query order, or with `indexOnly` nothing is
+   * walked and false is returned.
+   */
+  private async scanField(
+    operation: string,
+    field: string,
+    visit: (value: unknown, record: unknown) => boolean,
+    options: { direction?: QueryDirection; keysOnly?: boolean; indexOnly?: boolean } = {}
+  ): Promise<boolean> {
+    const { direction = 'next', keysOnly = true, indexOnly = false } = options;
+    const unique = direction === 'nextunique' || direction === 'prevunique';
+    this.trackRead();
+    const transaction = await this.openTransaction('readonly', operation);
+
+    return new Promise((resolve, reject) => {
+      const store = transaction.objectStore(this.storeName);
+      const onError = (error: DOMException | null): void => {
+        if (error) {
+          reject(this.handleError(error, operation));
+        } else {
+          reject(new TransactionAbortedError(`Failed to compute ${operation}`, { storeNames: [this.storeName] }));
+        }
+      };
 
-  constructor(db: Database, storeName: string) {
-    this.db = db;
-    this.storeName = storeName;
-  }
+      const plans = this.getPlans(store);
+      const fieldPlan = this.offsetCount === 0 && this.limitCount === null
+        ? this.getFieldPlan(store, plans, field)
+        : null;
 
-  /**
-   * Query by index
-   */
-  where(indexName: string): QueryWhere<T> {
-    this.indexName = indexName;
-    return new QueryWhere(this);
+      if (fieldPlan && (!unique || (fieldPlan.filters.length === 0 && this.predicates.length === 0))) {
+        this.walkPlan(store, fieldPlan, (entry) => visit(entry.key, entry.value), () => resolve(true), onError, {
+          keysOnly,
+          direction,
+        });
+        return;
+      }
+
+      if (indexOnly) {
+        resolve(false);
+        return;
+      }
+
+      const visitEntry = (entry: CursorEntry): boolean => visit(getValueByKeyPath(entry.value, field), entry.value);
+      const paged = this.offsetCount > 0 || this.limitCount !== null;
+
+      if (plans.length > 1 || paged) {
+        // Unions must be de-duplicated and paging depends on the sort order
+        const { plans: sortedPlans, sortKeyPath } = paged
+          ? this.planSort(store, plans)
+          : { plans, sortKeyPath: null };
+        this.collectEntries(store, sortedPlans, false, (entries) => {
+          const sorted = sortKeyPath !== null ? this.sortInMemory(entries, sortKeyPath) : entries;
+          const end = this.limitCount !== null ? this.offsetCount + this.limitCount : undefined;
+          sorted.slice(this.offsetCount, end).every(visitEntry);
+          resolve(true);
+        }, onError);
+        return;
+      }
+
+      this.walkPlan(store, plans[0] ?? this.emptyPlan(), visitEntry, () => resolve(true), onError);
+    });
   }
 
   /**
-   * Query by primary key
+   * Plan walking the index on a field (or the primary key) when it covers the whole query
    */
-  whereKey(): QueryWhere<T> {
-    this.indexName = null; // Use primary key
-    return new QueryWhere(this);
+  private getFieldPlan(store: IDBObjectStore, plans: QueryPlan[], field: string): QueryPlan | null {
+    const indexName = field === store.keyPath
+      ? null
+      : Array.from(store.indexNames).find((name) => !store.index(name).multiEntry && store.index(name).keyPath === field);
+
+    if (indexName === undefined || plans.length > 1) {
+      return null;
+    }
+
+    const plan = plans[0];
+    if (!plan) {
+      return { indexName, ranges: null, filters: [] };
+    }
+    return plan.indexName === indexName ? plan : null;
   }
 
   /**
-   * Set sort direction
+   * Read a plan with one getAll()/getAllKeys() request per range, in key order
+   * Much faster than stepping a cursor once per record.
    */
-  orderBy(direction: QueryDirection = 'next'): this {
-    this.direction = direction;
-    return this;
+  private readRanges<R>(
+    store: IDBObjectStore,
+    plan: QueryPlan,
+    readRange: NonNullable<EntryReader<R>['readRange']>,
+    limit: number | null,
+    onDone: (results: R[]) => void,
+    onError: (error: DOMException | null) => void
+  ): void {
+    const source = plan.indexName ? store.index(plan.indexName) : store;
+    const ranges = plan.ranges ?? [null];
+    const count = limit ?? undefined;
+    const chunks: unknown[][] = [];
+    let pending = ranges.length;
+
+    // getAll() treats a count of 0 as no limit
+    if (pending === 0 || count === 0) {
+      onDone([]);
+      return;
+    }
+
+    ranges.forEach((range, i) => {
+      const request = readRange.request(source, range, count);
+
+      request.onsuccess = (): void => {
+        chunks[i] = request.result;
+        pending--;
+        if (pending === 0) {
+          onDone(chunks.flat().slice(0, count).map(readRange.read));
+        }
+      };
+
+      request.onerror = (): void => {
+        onError(request.error);
+      };
+    });
   }
 
   /**
-   * Reverse sort order
+   * Reader producing records, or projections when `select()` was used
    */
-  reverse(): this {
-    this.direction = this.direction === 'next' ? 'prev' : 'next';
-    return this;
+  private recordReader(store: IDBObjectStore, plan: QueryPlan | null): EntryReader<T> {
+    const fields = this.projection;
+    if (fields === null) {
+      return {
+        keysOnly: false,
+        read: (entry) => entry.value as T,
+        readRange: { request: (source, range, count) => source.getAll(range, count), read: (value) => value as T },
+      };
+    }
+
+    const fromKeys = plan ? this.keyProjection(store, plan, fields) : null;
+    if (fromKeys) {
+      return { keysOnly: true, read: fromKeys };
+    }
+    return {
+      keysOnly: false,
+      read: (entry) => pickFields(entry.value, fields) as T,
+      readRange: {
+        request: (source, range, count) => source.getAll(range, count),
+        read: (value) => pickFields(value, fields) as T,
+      },
+    };
   }
 
   /**
-   * Limit number of results
+   * Build projected records from the index key and primary key alone, or return
+   * null when some field is not part of either
    */
-  limit(count: number): this {
-    this.limitCount = count;
-    return this;
+  private keyProjection(
+    store: IDBObjectStore,
+    plan: QueryPlan,
+    fields: string[]
+  ): ((entry: CursorEntry) => T) | null {
+    const sources: Array<{ keyPath: string | string[] | null; get: (entry: CursorEntry) => IDBValidKey }> = [
+      { keyPath: store.keyPath, get: (entry) => entry.primaryKey },
+    ];
+    if (plan.indexName !== null && !store.index(plan.indexName).multiEntry) {
+      sources.push({ keyPath: store.index(plan.indexName).keyPath, get: (entry) => entry.key });
+    }
+
+    const getters: Array<(entry: CursorEntry) => unknown> = [];
+    for (const field of fields) {
+      let getter: ((entry: CursorEntry) => unknown) | undefined;
+      for (const { keyPath, get } of sources) {
+        if (keyPath === field) {
+          getter = get;
+        } else if (Array.isArray(keyPath) && keyPath.includes(field)) {
+          const position = keyPath.indexOf(field);
+          getter = (entry): unknown => (get(entry) as IDBValidKey[])[position];
+        }
+        if (getter) {
+          break;
+        }
+      }
+      if (!getter) {
+        return null;
+      }
+      getters.push(getter);
+    }
+
+    return (entry) => {
+      const record: Record<string, unknown> = {};
+      fields.forEach((field, i) => {
+        record[field] = getters[i]?.(entry);
+      });
+      return record as T;
+    };
   }
 
   /**
-   * Skip number of results
+   * Whether `page()` resumes this query by cursor position (not OR queries or in-memory sorts)
    */
-  offset(count: number): this {
-    this.offsetCount = count;
-    return this;
+  private async pagesByCursor(): Promise<boolean> {
+    const transaction = await this.openTransaction('readonly', 'page');
+    const store = transaction.objectStore(this.storeName);
+    const { plans, sortKeyPath } = this.planSort(store, this.getPlans(store));
+    return plans.length <= 1 && sortKeyPath === null;
   }
 
   /**
-   * Execute query and return all results
+   * Read the next chunk of a streamed query in its own transaction
+   * Resolves to null when the query cannot be resumed by cursor position.
    */
-  async toArray(): Promise<T[]> {
-    const db = await this.db.getDB();
+  private async readChunk(
+    after: CursorPosition | null,
+    size: number,
+    progress: ChunkProgress
+  ): Promise<QueryChunk<T> | null> {
+    this.trackRead();
+    const transaction = await this.openTransaction('readonly', 'readChunk');
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readonly');
       const store = transaction.objectStore(this.storeName);
-      
-      const source = this.indexName 
-        ? store.index(this.indexName)
-        : store;
+      const { plans, sortKeyPath } = this.planSort(store, this.getPlans(store));
 
-      const request = this.keyRange
-        ? source.openCursor(this.keyRange, this.direction)
-        : source.openCursor(null, this.direction);
+      if (plans.length > 1 || sortKeyPath !== null) {
+        resolve(null);
+        return;
+      }
 
-      const results: T[] = [];
-      let skipped = 0;
+      const plan = plans[0] ?? this.emptyPlan();
+      const descending = this.direction === 'prev' || this.direction === 'prevunique';
+      // Store keys and unique index keys identify a record on their own
+      const exclusive = plan.indexName === null || this.direction === 'nextunique' || this.direction === 'prevunique';
+      const resumed = after
+        ? { ...plan, ranges: rangesFrom(plan.ranges, after.key, descending, exclusive) }
+        : plan;
 
-      request.onsuccess = () => {
-        const cursor = request.result;
-        if (!cursor) {
-          resolve(results);
-          return;
-        }
+      const { keysOnly, read } = this.recordReader(store, plan);
+      const values: T[] = [];
+      let last: CursorPosition | null = null;
+      let full = false;
 
-        // Handle offset
-        if (skipped < this.offsetCount) {
-          skipped++;
-          cursor.continue();
-          return;
+      this.walkPlan(store, resumed, (entry) => {
+        if (progress.remaining === 0) {
+          return false;
         }
 
-        // Handle limit
-        if (this.limitCount !== null && results.length >= this.limitCount) {
-          resolve(results);
-          return;
+        last = { key: entry.key, primaryKey: entry.primaryKey };
+
+        if (progress.skip > 0) {
+          progress.skip--;
+          return true;
         }
 
-        results.push(cursor.value as T);
-        cursor.continue();
-      };
+        values.push(read(entry));
+        if (progress.remaining !== null) {
+          progress.remaining--;
+        }
 
-      request.onerror = () => {
-        const error = request.error;
+        if (values.length >= size) {
+          full = true;
+          return false;
+        }
+        return true;
+      }, () => {
+        resolve({ values, last, done: !full || progress.remaining === 0 });
+      }, (error) => {
         if (error) {
-          reject(this.handleError(error, 'toArray'));
+          reject(this.handleError(error, 'readChunk'));
         } else {
-          reject(new TransactionAbortedError('Failed to execute query', { storeNames: [this.storeName] }));
+          reject(new TransactionAbortedError('Failed to read query batch', { storeNames: [this.storeName] }));
         }
-      };
+      }, { after: exclusive ? null : after, keysOnly });
     });
   }
 
   /**
-   * Execute query and return first result
+   * Record this query's reads for running live queries
    */
-  async first(): Promise<T | undefined> {
-    const results = await this.limit(1).toArray();
-    return results[0];
+  private trackRead(): void {
+    this.db.getChangeTracker().trackRead(this.storeName, this.getKeyDependency());
   }
 
   /**
-   * Count matching records
+   * Primary key ranges the results depend on, or null for the whole store
+   * Only groups constrained by a primary key condition narrow the dependency, since
+   * a write's old index values are unknown.
    */
-  async count(): Promise<number> {
-    const db = await this.db.getDB();
+  private getKeyDependency(): IDBKeyRange[] | null {
+    const groups = this.groups.filter((group) => group.length > 0);
+    if (groups.length === 0) {
+      return null;
+    }
 
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readonly');
-      const store = transaction.objectStore(this.storeName);
-      
-      const source = this.indexName 
-        ? store.index(this.indexName)
-        : store;
+    const ranges: IDBKeyRange[] = [];
+    for (const group of groups) {
+      const keyCondition = group.find((condition) => condition.indexName === null);
+      if (!keyCondition?.ranges) {
+        return null;
+      }
+      ranges.push(...keyCondition.ranges);
+    }
+    return ranges;
+  }
 
-      const request = this.keyRange
-        ? source.count(this.keyRange)
-        : source.count();
+  /**
+   * Build an execution plan for every OR group
+   */
+  private getPlans(store: IDBObjectStore): QueryPlan[] {
+    return this.groups
+      .filter((group) => group.length > 0)
+      .map((group) => this.planGroup(store, group));
+  }
 
-      request.onsuccess = () => {
-        resolve(request.result);
-      };
+  /**
+   * Decide whether the cursor order already satisfies sortBy(); when no condition
+   * picked a cursor source, walk an index on the sort field if there is one.
+   * `sortKeyPath` is null when no in-memory sort is needed.
+   */
+  private planSort(
+    store: IDBObjectStore,
+    plans: QueryPlan[]
+  ): { plans: QueryPlan[]; sortKeyPath: string | string[] | null } {
+    const field = this.sortField;
+    if (field === null) {
+      return { plans, sortKeyPath: null };
+    }
 
-      request.onerror = () => {
-        const error = request.error;
-        if (error) {
-          reject(this.handleError(error, 'count'));
-        } else {
-          reject(new TransactionAbortedError('Failed to count query results', { storeNames: [this.storeName] }));
+    if (field === store.keyPath && (plans.length !== 1 || plans[0]?.indexName === null)) {
+      // Store and OR-union walks are already in primary key order
+      return { plans, sortKeyPath: null };
+    }
+
+    const sortIndex = Array.from(store.indexNames).find((indexName) => {
+      const index = store.index(indexName);
+      return !index.multiEntry && (indexName === field || index.keyPath === field);
+    });
+
+    if (sortIndex !== undefined) {
+      if (plans.length === 0) {
+        return { plans: [{ indexName: sortIndex, ranges: null, filters: [] }], sortKeyPath: null };
+      }
+      if (plans.length === 1 && plans[0]?.indexName === sortIndex) {
+        return { plans, sortKeyPath: null };
+      }
+    }
+
+    const sortKeyPath = sortIndex !== undefined ? store.index(sortIndex).keyPath : field;
+    return { plans, sortKeyPath };
+  }
+
+  /**
+   * Sort entries by a record key path in IndexedDB key order, leaving out records
+   * without a valid key like an index walk does
+   */
+  private sortInMemory(entries: CursorEntry[], keyPath: string | string[]): CursorEntry[] {
+    if (entries.length > LARGE_SORT_WARNING_THRESHOLD) {
+      this.db.logDebug(
+        `sortBy("${String(keyPath)}") sorted ${entries.length} records in memory on "${this.storeName}". ` +
+        `Add an index on this field to sort with a cursor instead.`
+      );
+    }
+
+    const descending = this.direction === 'prev' || this.direction === 'prevunique';
+    const keyed: Array<{ entry: CursorEntry; key: IDBValidKey }> = [];
+    for (const entry of entries) {
+      const key = getValueByKeyPath(entry.value, keyPath);
+      if (isValidKey(key)) {
+        keyed.push({ entry, key });
+      }
+    }
+
+    keyed.sort((a, b) => {
+      const order = indexedDB.cmp(a.key, b.key);
+      return descending ? -order : order;
+    });
+
+    return keyed.map(({ entry }) => entry);
+  }
+
+  /**
+   * Collect every matching entry for one plan or the union of several
+   */
+  private collectEntries(
+    store: IDBObjectStore,
+    plans: QueryPlan[],
+    keysOnly: boolean,
+    onDone: (entries: CursorEntry[]) => void,
+    onError: (error: DOMException | null) => void
+  ): void {
+    if (plans.length > 1) {
+      this.collectUnion(store, plans, keysOnly, onDone, onError);
+      return;
+    }
+
+    const entries: CursorEntry[] = [];
+    this.walkPlan(store, plans[0] ?? this.emptyPlan(), (entry) => {
+      entries.push(entry);
+      return true;
+    }, () => onDone(entries), onError, { keysOnly });
+  }
+
+  /**
+   * Plan that walks the whole store
+   */
+  private emptyPlan(): QueryPlan {
+    return { indexName: null, ranges: null, filters: [] };
+  }
+
+  /**
+   * Pick the cursor source for a group of AND-ed conditions
+   */
+  private planGroup(store: IDBObjectStore, conditions: QueryCondition[]): QueryPlan {
+    const isIndexed = (condition: QueryCondition): boolean =>
+      condition.indexName === null || store.indexNames.contains(condition.indexName);
+
+    if (conditions.length === 1) {
+      const [condition] = conditions as [QueryCondition];
+      if (isIndexed(condition)) {
+        return { indexName: condition.indexName, ranges: condition.ranges, filters: [] };
+      }
+    }
+
+    const compound = this.planCompound(store, conditions);
+    if (compound) {
+      return compound;
+    }
+
+    // Prefer an indexed equality condition, then any indexed condition
+    const indexed = conditions.filter(isIndexed);
+    const driver =
+      indexed.find((condition) => condition.ranges?.length === 1 && isEqualityRange(condition.ranges[0] as IDBKeyRange)) ??
+      indexed[0];
+
+    if (!driver) {
+      return { indexName: null, ranges: null, filters: conditions };
+    }
+
+    return {
+      indexName: driver.indexName,
+      ranges: driver.ranges,
+      filters: conditions.filter((condition) => condition !== driver),
+    };
+  }
+
+  /**
+   * Find a compound index covering every condition: all but the last key path
+   * component must be single equalities, the last one may be any set of ranges
+   */
+  private planCompound(store: IDBObjectStore, conditions: QueryCondition[]): QueryPlan | null {
+    for (const indexName of Array.from(store.indexNames)) {
+      const keyPath = store.index(indexName).keyPath;
+      if (!Array.isArray(keyPath) || keyPath.length !== conditions.length) {
+        continue;
+      }
+
+      const ordered: QueryCondition[] = [];
+      for (const path of keyPath) {
+        const match = conditions.find(
+          (condition) => !ordered.includes(condition) && this.getConditionKeyPath(store, condition) === path
+        );
+        if (!match) {
+          break;
         }
-      };
+        ordered.push(match);
+      }
+
+      if (ordered.length !== conditions.length) {
+        continue;
+      }
+
+      const equalities = ordered.slice(0, -1);
+      const last = ordered[ordered.length - 1];
+      if (
+        !last?.ranges ||
+        !equalities.every((condition) => condition.ranges?.length === 1 && isEqualityRange(condition.ranges[0] as IDBKeyRange))
+      ) {
+        continue;
+      }
+
+      const prefix = equalities.map((condition) => condition.ranges?.[0]?.lower as IDBValidKey);
+
+      // A shorter array sorts before any array it prefixes, and arrays sort after
+      // every other key type, so the prefix and [] bound an open-ended component
+      const ranges = last.ranges.map((range) => {
+        const lower: unknown = range.lower;
+        const upper: unknown = range.upper;
+        return IDBKeyRange.bound(
+          lower === undefined ? prefix : [...prefix, lower as IDBValidKey],
+          upper === undefined ? [...prefix, []] : [...prefix, upper as IDBValidKey],
+          lower === undefined ? false : range.lowerOpen,
+          upper === undefined ? true : range.upperOpen
+        );
+      });
+
+      return { indexName, ranges, filters: [] };
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve the record key path a condition applies to
+   */
+  private getConditionKeyPath(store: IDBObjectStore, condition: QueryCondition): string | string[] {
+    if (condition.indexName === null) {
+      return store.keyPath ?? [];
+    }
+    if (store.indexNames.contains(condition.indexName)) {
+      return store.index(condition.indexName).keyPath;
+    }
+    return condition.indexName;
+  }
+
+  /**
+   * Check a record against residual conditions
+   */
+  private matchesFilters(
+    store: IDBObjectStore,
+    primaryKey: IDBValidKey,
+    record: unknown,
+    filters: QueryCondition[]
+  ): boolean {
+    return filters.every((condition) => {
+      const value = condition.indexName === null
+        ? primaryKey
+        : getValueByKeyPath(record, this.getConditionKeyPath(store, condition));
+      const multiEntry =
+        condition.indexName !== null &&
+        store.indexNames.contains(condition.indexName) &&
+        store.index(condition.indexName).multiEntry;
+
+      if (multiEntry && Array.isArray(value)) {
+        return value.some((entry) => rangesInclude(condition.ranges, entry));
+      }
+      return rangesInclude(condition.ranges, value);
     });
   }
 
   /**
-   * Set key range (internal use by QueryWhere)
+   * Walk a plan with a cursor; `visit` returns false to stop early and may write
+   * through the cursor it is given (before it moves on)
+   * With `after`, index entries sharing its key are skipped up to its primary key.
+   * With `keysOnly`, a key cursor is used unless filters need the record values.
+   */
+  private walkPlan(
+    store: IDBObjectStore,
+    plan: QueryPlan,
+    visit: (entry: CursorEntry, cursor: IDBCursor) => boolean,
+    onDone: () => void,
+    onError: (error: DOMException | null) => void,
+    options: { after?: CursorPosition | null; keysOnly?: boolean; direction?: QueryDirection } = {}
+  ): void {
+    const { after = null, direction = this.direction } = options;
+    const keysOnly = options.keysOnly === true && plan.filters.length === 0 && this.predicates.length === 0;
+    const ranges = plan.ranges;
+    if (ranges && ranges.length === 0) {
+      // Nothing can match (e.g. in([]))
+      onDone();
+      return;
+    }
+
+    const source = plan.indexName
+      ? store.index(plan.indexName)
+      : store;
+
+    const descending = direction === 'prev' || direction === 'prevunique';
+    const seekState = { index: descending && ranges ? ranges.length - 1 : 0 };
+    const query = ranges ? coverRanges(ranges) : null;
+    const request = keysOnly
+      ? source.openKeyCursor(query, direction)
+      : source.openCursor(query, direction);
+
+    request.onsuccess = (): void => {
+      const cursor = request.result;
+      if (!cursor) {
+        onDone();
+        return;
+      }
+
+      // Jump over the gaps between multiple ranges
+      if (ranges && ranges.length > 1) {
+        const seek = seekRanges(cursor, ranges, seekState, descending);
+        if (seek === 'done') {
+          onDone();
+          return;
+        }
+        if (seek === 'moved') {
+          return;
+        }
+      }
+
+      if (after && indexedDB.cmp(cursor.key, after.key) === 0) {
+        const order = indexedDB.cmp(cursor.primaryKey, after.primaryKey) * (descending ? -1 : 1);
+        if (order < 0) {
+          cursor.continuePrimaryKey(after.key, after.primaryKey);
+          return;
+        }
+        if (order === 0) {
+          cursor.continue();
+          return;
+        }
+      }
+
+      const value: unknown = keysOnly ? undefined : (cursor as IDBCursorWithValue).value;
+
+      if (plan.filters.length > 0 && !this.matchesFilters(store, cursor.primaryKey, value, plan.filters)) {
+        cursor.continue();
+        return;
+      }
+
+      if (this.predicates.length > 0 && !this.predicates.every((predicate) => predicate(value as T))) {
+        cursor.continue();
+        return;
+      }
+
+      if (visit({ key: cursor.key, primaryKey: cursor.primaryKey, value }, cursor)) {
+        cursor.continue();
+      } else {
+        onDone();
+      }
+    };
+
+    request.onerror = (): void => {
+      onError(request.error);
+    };
+  }
+
+  /**
+   * Walk every plan and merge matches by primary key, ordered by primary key
+   */
+  private collectUnion(
+    store: IDBObjectStore,
+    plans: QueryPlan[],
+    keysOnly: boolean,
+    onDone: (entries: CursorEntry[]) => void,
+    onError: (error: DOMException | null) => void
+  ): void {
+    const entries: CursorEntry[] = [];
+    const descending = this.direction === 'prev' || this.direction === 'prevunique';
+
+    const insert = (entry: CursorEntry): void => {
+      // Binary search keeps entries sorted and de-duplicated
+      let low = 0;
+      let high = entries.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        const order = indexedDB.cmp(entries[mid]?.primaryKey, entry.primaryKey) * (descending ? -1 : 1);
+        if (order === 0) {
+          return;
+        }
+        if (order < 0) {
+          low = mid + 1;
+        } else {
+          high = mid;
+        }
+      }
+      entries.splice(low, 0, entry);
+    };
+
+    const next = (planIndex: number): void => {
+      const plan = plans[planIndex];
+      if (!plan) {
+        onDone(entries);
+        return;
+      }
+
+      this.walkPlan(store, plan, (entry) => {
+        insert(entry);
+        return true;
+      }, () => next(planIndex + 1), onError, { keysOnly });
+    };
+
+    next(0);
+  }
+
+  /**
+   * Get a transaction on this store (the bound one inside a transaction callback)
    */
-  setKeyRange(range: IDBKeyRange): void {
-    this.keyRange = range;
+  private openTransaction(mode: TransactionMode, operation: string): Promise<IDBTransaction> {
+    return openStoreTransaction(this.db, this.storeName, mode, operation, this.transaction);
   }
 
   /**
-   * Handle IndexedDB errors and convert to NitroIDB errors
+   * Convert an IndexedDB error and report it to the database's error listeners
    */
   private handleError(error: DOMException | Error, operation: string): Error {
+    return this.db.reportError(this.mapError(error, operation), {
+      source: 'query',
+      storeNames: [this.storeName],
+      operation,
+    });
+  }
+
+  /**
+   * Convert IndexedDB errors to NitroIDB errors
+   */
+  private mapError(error: DOMException | Error, operation: string): Error {
     const browserInfo = this.db.getBrowserInfo();
 
     if (error.name === 'QuotaExceededError') {
@@ -204,102 +1572,84 @@ export class Query<T = unknown> {
  */
 export class QueryWhere<T = unknown> {
   private readonly query: Query<T>;
+  private readonly indexName: string | null;
+  private readonly newGroup: boolean;
 
-  constructor(query: Query<T>) {
+  constructor(query: Query<T>, indexName: string | null = null, newGroup: boolean = false) {
     this.query = query;
+    this.indexName = indexName;
+    this.newGroup = newGroup;
   }
 
   /**
    * Match exact value
    */
   equals(value: IDBValidKey): Query<T> {
-    this.query.setKeyRange(IDBKeyRange.only(value));
-    return this.query;
+    return this.setRanges([IDBKeyRange.only(value)]);
   }
 
   /**
    * Match values above (exclusive)
    */
   above(value: IDBValidKey): Query<T> {
-    this.query.setKeyRange(IDBKeyRange.lowerBound(value, true));
-    return this.query;
+    return this.setRanges([IDBKeyRange.lowerBound(value, true)]);
   }
 
   /**
    * Match values above or equal (inclusive)
    */
   aboveOrEqual(value: IDBValidKey): Query<T> {
-    this.query.setKeyRange(IDBKeyRange.lowerBound(value, false));
-    return this.query;
+    return this.setRanges([IDBKeyRange.lowerBound(value, false)]);
   }
 
   /**
    * Match values below (exclusive)
    */
   below(value: IDBValidKey): Query<T> {
-    this.query.setKeyRange(IDBKeyRange.upperBound(value, true));
-    return this.query;
+    return this.setRanges([IDBKeyRange.upperBound(value, true)]);
   }
 
   /**
    * Match values below or equal (inclusive)
    */
   belowOrEqual(value: IDBValidKey): Query<T> {
-    this.query.setKeyRange(IDBKeyRange.upperBound(value, false));
-    return this.query;
+    return this.setRanges([IDBKeyRange.upperBound(value, false)]);
   }
 
   /**
    * Match values between two bounds
    */
   between(lower: IDBValidKey, upper: IDBValidKey, lowerOpen: boolean = false, upperOpen: boolean = false): Query<T> {
-    this.query.setKeyRange(IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen));
-    return this.query;
+    return this.setRanges([IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen)]);
   }
 
   /**
-   * Match values in array
-   * Note: This uses a range approximation. For exact matching, results are filtered in JavaScript.
+   * Match any of the given values exactly
+   * The cursor jumps straight from one value to the next, skipping everything in between.
    */
   in(values: IDBValidKey[]): Query<T> {
-    // For multiple values, we'll need to do multiple queries and combine
-    // This is a simplified version - in practice, you might want to optimize this
-    // For now, we'll use a range that covers all values
-    if (values.length === 0) {
-      // Return empty range
-      this.query.setKeyRange(IDBKeyRange.bound('', '', true, true));
-      return this.query;
-    }
-
-    if (values.length === 1) {
-      const value = values[0];
-      if (value !== undefined && value !== null) {
-        return this.equals(value);
-      }
-      // Return empty range for undefined/null
-      this.query.setKeyRange(IDBKeyRange.bound('', '', true, true));
-      return this.query;
-    }
-
-    // Filter out undefined/null values
-    const validValues = values.filter((v): v is IDBValidKey => v !== undefined && v !== null);
-    
-    if (validValues.length === 0) {
-      this.query.setKeyRange(IDBKeyRange.bound('', '', true, true));
-      return this.query;
-    }
-
-    // Use a range that covers all values
-    const sorted = [...validValues].sort();
-    const lower = sorted[0];
-    const upper = sorted[sorted.length - 1];
-    if (lower !== undefined && upper !== undefined) {
-      this.query.setKeyRange(IDBKeyRange.bound(lower, upper, false, false));
-    }
-    
-    // Note: This is approximate - actual implementation would filter results
-    // For exact matching, we'd need to fetch and filter in JavaScript
-    return this.query;
+    return this.setRanges(rangesForKeys(values));
+  }
+
+  /**
+   * Alias for `in()`
+   */
+  anyOf(values: IDBValidKey[]): Query<T> {
+    return this.in(values);
+  }
+
+  /**
+   * Match every value except the given ones
+   */
+  notIn(values: IDBValidKey[]): Query<T> {
+    return this.setRanges(complementRanges(values));
+  }
+
+  /**
+   * Alias for `notIn()`
+   */
+  noneOf(values: IDBValidKey[]): Query<T> {
+    return this.notIn(values);
   }
 
   /**
@@ -312,7 +1662,14 @@ export class QueryWhere<T = unknown> {
 
     // Create a range from prefix to prefix + '\uffff' (highest Unicode character)
     const upperBound = prefix + '\uffff';
-    this.query.setKeyRange(IDBKeyRange.bound(prefix, upperBound, false, true));
+    return this.setRanges([IDBKeyRange.bound(prefix, upperBound, false, true)]);
+  }
+
+  /**
+   * Apply key ranges to the query
+   */
+  private setRanges(ranges: IDBKeyRange[] | null): Query<T> {
+    this.query.addCondition(this.indexName, ranges, this.newGroup);
     return this.query;
   }
 }
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { createDB } from '../database/index.js';
 import { Table } from './table.js';
+import { ConflictError } from '../errors/index.js';
+import { openTestDB } from '../../tests/helpers.js';
 
 interface User {
   id: string;
@@ -46,10 +48,6 @@ describe('Table', () => {
   });
 
   it('should create table instance', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -65,10 +63,6 @@ describe('Table', () => {
   });
 
   it('should throw error for non-existent store', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -83,10 +77,6 @@ describe('Table', () => {
   });
 
   it('should add and get records', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -109,10 +99,6 @@ describe('Table', () => {
   });
 
   it('should return undefined for non-existent record', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -131,10 +117,6 @@ describe('Table', () => {
   });
 
   it('should update records', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -158,10 +140,6 @@ describe('Table', () => {
   });
 
   it('should throw error when updating non-existent record', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -179,10 +157,6 @@ describe('Table', () => {
   });
 
   it('should put (replace) records', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -207,10 +181,6 @@ describe('Table', () => {
   });
 
   it('should delete records', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -233,10 +203,6 @@ describe('Table', () => {
   });
 
   it('should clear all records', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -259,10 +225,6 @@ describe('Table', () => {
   });
 
   it('should get multiple records', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -278,18 +240,13 @@ describe('Table', () => {
     await usersTable.add({ id: '2', name: 'Jane', email: 'jane@example.com' });
     await usersTable.add({ id: '3', name: 'Bob', email: 'bob@example.com' });
 
-    const users = await usersTable.getMany(['1', '3']);
-    expect(users).toHaveLength(2);
-    expect(users.map((u) => u.id).sort()).toEqual(['1', '3']);
+    const users = await usersTable.getMany(['3', '4', '1', '3']);
+    expect(users.map((u) => u?.id)).toEqual(['3', undefined, '1', '3']);
 
     db.close();
   });
 
   it('should return empty array for getMany with no keys', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -307,11 +264,27 @@ describe('Table', () => {
     db.close();
   });
 
-  it('should delete multiple records', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
+  it('should get a dense key set with one range read', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+    });
+    const usersTable = db.table<User>('users');
+
+    for (let i = 10; i < 40; i++) {
+      await usersTable.add({ id: String(i), name: `User ${i}`, email: `user${i}@example.com` });
     }
 
+    const keys = Array.from({ length: 25 }, (_, i) => String(39 - i));
+    keys.push('missing', '10');
+
+    const users = await usersTable.getMany(keys);
+    expect(users).toHaveLength(27);
+    expect(users.map((u) => u?.id)).toEqual([...keys.slice(0, 25), undefined, '10']);
+
+    db.close();
+  });
+
+  it('should delete multiple records', async () => {
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -337,10 +310,6 @@ describe('Table', () => {
   });
 
   it('should count records', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -363,10 +332,6 @@ describe('Table', () => {
   });
 
   it('should check if record exists', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -389,10 +354,6 @@ describe('Table', () => {
   });
 
   it('should work with different store types', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -415,5 +376,122 @@ describe('Table', () => {
 
     db.close();
   });
-});
 
+  it('should reject stale writes to versioned stores with ConflictError', async () => {
+    interface Note {
+      id: string;
+      text: string;
+      _version?: number;
+    }
+
+    const db = await openTestDB({
+      notes: { primaryKey: 'id', versioned: true },
+    });
+    const notes = db.table<Note>('notes');
+
+    await notes.add({ id: '1', text: 'draft' });
+    const read = await notes.get('1');
+    expect(read).toEqual({ id: '1', text: 'draft', _version: 1 });
+
+    // Another tab saves first
+    await notes.update('1', { text: 'theirs' }, { expectedVersion: 1 });
+
+    const error = await notes.update('1', { text: 'mine' }, { expectedVersion: 1 }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ConflictError);
+    const conflict = error as ConflictError<Note>;
+    expect(conflict.currentVersion).toBe(2);
+    expect(conflict.current).toEqual({ id: '1', text: 'theirs', _version: 2 });
+    expect(conflict.attempted).toEqual({ id: '1', text: 'mine', _version: 2 });
+
+    await expect(notes.put({ ...read!, text: 'mine' })).rejects.toThrow(ConflictError);
+    await notes.put({ id: '1', text: 'merged', _version: 2 });
+    expect(await notes.get('1')).toEqual({ id: '1', text: 'merged', _version: 3 });
+
+    await expect(
+      db.table('notes').put({ id: '2', text: 'gone', _version: 4 })
+    ).rejects.toThrow('the record was deleted');
+
+    db.close();
+  });
+
+  it('should reject expectedVersion on stores that are not versioned', async () => {
+    const db = createDB({
+      name: testDBName + '-unversioned',
+      version: 1,
+      stores: { users: { primaryKey: 'id' } },
+    });
+
+    await expect(db.table('users').update('1', {}, { expectedVersion: 1 })).rejects.toThrow(
+      'Store "users" is not versioned'
+    );
+
+    db.close();
+  });
+
+  it('should upsert by merging into the stored record or adding it', async () => {
+    const db = createDB({
+      name: testDBName + '-upsert',
+      version: 1,
+      stores: { users: { primaryKey: 'id' }, notes: { primaryKey: 'id', versioned: true } },
+    });
+    const users = db.table<User & { role?: string }>('users');
+
+    await users.upsert({ id: '1', name: 'John', email: 'john@example.com' });
+    await users.put({ id: '1', name: 'John', email: 'john@example.com', role: 'admin' });
+    await users.upsert({ id: '1', name: 'Johnny', email: 'johnny@example.com' });
+    expect(await users.get('1')).toEqual({ id: '1', name: 'Johnny', email: 'johnny@example.com', role: 'admin' });
+
+    const notes = db.table<{ id: string; text: string; _version?: number }>('notes');
+    await notes.upsert({ id: '1', text: 'a' });
+    await notes.upsert({ id: '1', text: 'b' });
+    expect(await notes.get('1')).toEqual({ id: '1', text: 'b', _version: 2 });
+    await expect(notes.upsert({ id: '1', text: 'stale', _version: 1 })).rejects.toThrow(ConflictError);
+
+    db.close();
+  });
+
+  it('should modify a record with an updater in one transaction', async () => {
+    const db = createDB({
+      name: testDBName + '-modify',
+      version: 1,
+      stores: { counters: { primaryKey: 'id' }, notes: { primaryKey: 'id', versioned: true } },
+    });
+    const counters = db.table<{ id: string; count: number; tags: string[] }>('counters');
+    await counters.add({ id: 'a', count: 0, tags: [] });
+
+    // Concurrent modifiers each see the previous write
+    await Promise.all(
+      Array.from({ length: 5 }, () => counters.modify('a', (record) => {
+        record.count++;
+        record.tags.push('x');
+      }))
+    );
+    expect(await counters.get('a')).toEqual({ id: 'a', count: 5, tags: ['x', 'x', 'x', 'x', 'x'] });
+
+    const replaced = await counters.modify('a', (record) => ({ ...record, count: 0 }));
+    expect(replaced?.count).toBe(0);
+
+    let called = false;
+    expect(await counters.modify('missing', () => {
+      called = true;
+    })).toBeUndefined();
+    expect(called).toBe(false);
+
+    await expect(counters.modify('a', (record) => ({ ...record, id: 'b' }))).rejects.toThrow(
+      'modify() cannot change the primary key of "counters" record "a"'
+    );
+    await expect(counters.modify('a', () => {
+      throw new Error('nope');
+    })).rejects.toThrow('nope');
+    expect(await counters.count()).toBe(1);
+
+    const notes = db.table<{ id: string; text: string; _version?: number }>('notes');
+    await notes.add({ id: '1', text: 'a' });
+    expect(await notes.modify('1', (note) => {
+      note.text = 'b';
+    })).toEqual({ id: '1', text: 'b', _version: 2 });
+    await expect(notes.modify('1', () => undefined, { expectedVersion: 1 })).rejects.toThrow(ConflictError);
+
+    db.close();
+  });
+});
@@ -1,33 +1,66 @@
 import type { Database } from '../database/database.js';
-import { TransactionAbortedError, StorageEvictedError, QuotaExceededError } from '../errors/index.js';
+import { TransactionAbortedError, StorageEvictedError, QuotaExceededError, ConflictError } from '../errors/index.js';
 import { Query } from './query.js';
 import { BulkWriteEngine } from './bulk.js';
 import type { BulkWriteOptions, BulkWriteResult } from './bulk.js';
+import { normalizeKeys, findKeyIndex, rangesForKeys, getValueByKeyPath, isValidKey } from '../utils/key-range.js';
+import { getVersionField, readVersion, hasVersion, withVersion } from '../utils/version.js';
+import { applyModifier } from './modify.js';
+import type { Modifier } from './modify.js';
+import { openStoreTransaction } from '../transaction/store-transaction.js';
+import { undoableWrites } from '../transaction/savepoint.js';
+import type { Savepoint } from '../transaction/savepoint.js';
+import type { TransactionMode } from '../types/transaction.js';
+
+/**
+ * getMany() reads at least this many keys with a single range request when they are dense
+ */
+const DENSE_GET_MIN_KEYS = 16;
+
+/**
+ * Maximum records per requested key in the covering range for a dense getMany()
+ */
+const DENSE_GET_MAX_RATIO = 2;
+
+/**
+ * Options for `Table.update()`
+ */
+export interface UpdateOptions {
+  /** Version the record must still have (versioned stores only); a ConflictError is thrown otherwise */
+  expectedVersion?: number;
+}
 
 /**
  * Table interface for CRUD operations on object stores
  */
-export class Table<T = unknown> {
+export class Table<T = unknown, TKey extends IDBValidKey = IDBValidKey> {
   private readonly db: Database;
   private readonly storeName: string;
+  /** Transaction every operation runs in (set for `ctx.table()` handles) */
+  private readonly transaction?: IDBTransaction;
+  /** Undo log of the `ctx.savepoint()` scope this handle belongs to */
+  private readonly savepoint: Savepoint | null;
 
-  constructor(db: Database, storeName: string) {
+  constructor(db: Database, storeName: string, transaction?: IDBTransaction, savepoint: Savepoint | null = null) {
     this.db = db;
     this.storeName = storeName;
+    this.transaction = transaction;
+    this.savepoint = savepoint;
   }
 
   /**
    * Add a record to the table
    */
   async add(record: T): Promise<void> {
-    const db = await this.db.getDB();
+    const versionField = this.getVersionField();
+    const transaction = await this.openTransaction('readwrite', 'add');
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readwrite');
       const store = transaction.objectStore(this.storeName);
-      const request = store.add(record);
+      const request = undoableWrites(store, this.savepoint).add(versionField === null ? record : withVersion(record, versionField, 1));
 
       request.onsuccess = () => {
+        this.db.getChangeTracker().trackWrite(transaction, [{ store: this.storeName, type: 'add', keys: [request.result] }]);
         resolve();
       };
 
@@ -45,11 +78,11 @@ export class Table<T = unknown> {
   /**
    * Get a record by primary key
    */
-  async get(key: IDBValidKey): Promise<T | undefined> {
-    const db = await this.db.getDB();
+  async get(key: TKey): Promise<T | undefined> {
+    this.db.getChangeTracker().trackRead(this.storeName, [IDBKeyRange.only(key)]);
+    const transaction = await this.openTransaction('readonly', 'get');
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readonly');
       const store = transaction.objectStore(this.storeName);
       const request = store.get(key);
 
@@ -70,12 +103,17 @@ export class Table<T = unknown> {
 
   /**
    * Update a record by primary key
+   * In a versioned store this bumps the version, and `expectedVersion` guards against
+   * overwriting a record that changed since it was read.
    */
-  async update(key: IDBValidKey, updates: Partial<T>): Promise<void> {
-    const db = await this.db.getDB();
+  async update(key: TKey, updates: Partial<T>, options?: UpdateOptions): Promise<void> {
+    const versionField = this.getVersionField();
+    if (options?.expectedVersion !== undefined && versionField === null) {
+      throw new Error(`Store "${this.storeName}" is not versioned`);
+    }
+    const transaction = await this.openTransaction('readwrite', 'update');
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readwrite');
       const store = transaction.objectStore(this.storeName);
       const getRequest = store.get(key);
 
@@ -86,10 +124,19 @@ export class Table<T = unknown> {
           return;
         }
 
-        const updated = { ...existing, ...updates };
-        const putRequest = store.put(updated);
+        let updated = { ...existing, ...updates };
+        if (versionField !== null) {
+          const conflict = this.versionConflict(key, existing, updated, options?.expectedVersion, versionField);
+          if (conflict) {
+            reject(conflict);
+            return;
+          }
+          updated = withVersion(updated, versionField, readVersion(existing, versionField) + 1);
+        }
+        const putRequest = undoableWrites(store, this.savepoint).put(updated);
 
         putRequest.onsuccess = () => {
+          this.db.getChangeTracker().trackWrite(transaction, [{ store: this.storeName, type: 'update', keys: [key] }]);
           resolve();
         };
 
@@ -116,25 +163,201 @@ export class Table<T = unknown> {
 
   /**
    * Replace a record entirely (put)
+   * In a versioned store this bumps the version, and a record carrying a version
+   * must still match the stored one.
    */
   async put(record: T): Promise<void> {
-    const db = await this.db.getDB();
+    const versionField = this.getVersionField();
+    const transaction = await this.openTransaction('readwrite', 'put');
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readwrite');
       const store = transaction.objectStore(this.storeName);
-      const request = store.put(record);
 
-      request.onsuccess = () => {
-        resolve();
+      const write = (value: T): void => {
+        const request = undoableWrites(store, this.savepoint).put(value);
+
+        request.onsuccess = (): void => {
+          this.db.getChangeTracker().trackWrite(transaction, [{ store: this.storeName, type: 'put', keys: [request.result] }]);
+          resolve();
+        };
+
+        request.onerror = (): void => {
+          const error = request.error;
+          if (error) {
+            reject(this.handleError(error, 'put'));
+          } else {
+            reject(new TransactionAbortedError('Failed to put record', { storeNames: [this.storeName] }));
+          }
+        };
       };
 
-      request.onerror = () => {
-        const error = request.error;
+      if (versionField === null) {
+        write(record);
+        return;
+      }
+      const key = store.keyPath === null ? undefined : getValueByKeyPath(record, store.keyPath);
+      if (!isValidKey(key)) {
+        // New record with a generated key
+        write(withVersion(record, versionField, 1));
+        return;
+      }
+
+      const getRequest = store.get(key);
+
+      getRequest.onsuccess = (): void => {
+        const current = getRequest.result as T | undefined;
+        const expectedVersion = hasVersion(record, versionField) ? readVersion(record, versionField) : undefined;
+        const conflict = this.versionConflict(key, current, record, expectedVersion, versionField);
+        if (conflict) {
+          reject(conflict);
+          return;
+        }
+        write(withVersion(record, versionField, readVersion(current, versionField) + 1));
+      };
+
+      getRequest.onerror = (): void => {
+        const error = getRequest.error;
         if (error) {
           reject(this.handleError(error, 'put'));
         } else {
-          reject(new TransactionAbortedError('Failed to put record', { storeNames: [this.storeName] }));
+          reject(new TransactionAbortedError('Failed to get record for put', { storeNames: [this.storeName] }));
+        }
+      };
+    });
+  }
+
+  /**
+   * Merge a record into the stored one, or add it when there is none, in one transaction
+   * In a versioned store this bumps the version, and a record carrying a version
+   * must still match the stored one.
+   */
+  async upsert(record: T): Promise<void> {
+    const versionField = this.getVersionField();
+    const transaction = await this.openTransaction('readwrite', 'upsert');
+
+    return new Promise((resolve, reject) => {
+      const store = transaction.objectStore(this.storeName);
+
+      const write = (value: T, type: 'add' | 'update'): void => {
+        const request = undoableWrites(store, this.savepoint).put(value);
+
+        request.onsuccess = (): void => {
+          this.db.getChangeTracker().trackWrite(transaction, [{ store: this.storeName, type, keys: [request.result] }]);
+          resolve();
+        };
+
+        request.onerror = (): void => {
+          const error = request.error;
+          if (error) {
+            reject(this.handleError(error, 'upsert'));
+          } else {
+            reject(new TransactionAbortedError('Failed to upsert record', { storeNames: [this.storeName] }));
+          }
+        };
+      };
+
+      const key = store.keyPath === null ? undefined : getValueByKeyPath(record, store.keyPath);
+      if (!isValidKey(key)) {
+        // New record with a generated key
+        write(versionField === null ? record : withVersion(record, versionField, 1), 'add');
+        return;
+      }
+
+      const getRequest = store.get(key);
+
+      getRequest.onsuccess = (): void => {
+        const current = getRequest.result as T | undefined;
+        const merged = current === undefined ? record : { ...current, ...record };
+        if (versionField === null) {
+          write(merged, current === undefined ? 'add' : 'update');
+          return;
+        }
+
+        const expectedVersion = hasVersion(record, versionField) ? readVersion(record, versionField) : undefined;
+        const conflict = this.versionConflict(key, current, record, expectedVersion, versionField);
+        if (conflict) {
+          reject(conflict);
+          return;
+        }
+        write(withVersion(merged, versionField, readVersion(current, versionField) + 1), current === undefined ? 'add' : 'update');
+      };
+
+      getRequest.onerror = (): void => {
+        const error = getRequest.error;
+        if (error) {
+          reject(this.handleError(error, 'upsert', String(key)));
+        } else {
+          reject(new TransactionAbortedError('Failed to get record for upsert', { storeNames: [this.storeName] }));
+        }
+      };
+    });
+  }
+
+  /**
+   * Read a record, pass it to `modifier` and write the result back in one transaction
+   * The modifier edits the record in place or returns a replacement; it must not
+   * change the primary key. Resolves to the stored record, or undefined (without
+   * calling the modifier) when there is no record with the key. In a versioned store
+   * this bumps the version and honours `expectedVersion` like `update()`.
+   */
+  async modify(key: TKey, modifier: Modifier<T>, options?: UpdateOptions): Promise<T | undefined> {
+    const versionField = this.getVersionField();
+    if (options?.expectedVersion !== undefined && versionField === null) {
+      throw new Error(`Store "${this.storeName}" is not versioned`);
+    }
+    const transaction = await this.openTransaction('readwrite', 'modify');
+
+    return new Promise((resolve, reject) => {
+      const store = transaction.objectStore(this.storeName);
+      const getRequest = store.get(key);
+
+      getRequest.onsuccess = (): void => {
+        const existing = getRequest.result as T | undefined;
+        if (existing === undefined) {
+          resolve(undefined);
+          return;
+        }
+
+        if (versionField !== null) {
+          // Checked first so the modifier never runs on a stale record
+          const conflict = this.versionConflict(key, existing, existing, options?.expectedVersion, versionField);
+          if (conflict) {
+            reject(conflict);
+            return;
+          }
+        }
+
+        let modified: T;
+        try {
+          modified = applyModifier(this.storeName, store.keyPath, key, existing, modifier, versionField);
+        } catch (error) {
+          reject(error instanceof Error ? error : new Error(String(error)));
+          return;
+        }
+
+        const putRequest = undoableWrites(store, this.savepoint).put(modified);
+
+        putRequest.onsuccess = (): void => {
+          this.db.getChangeTracker().trackWrite(transaction, [{ store: this.storeName, type: 'update', keys: [key] }]);
+          resolve(modified);
+        };
+
+        putRequest.onerror = (): void => {
+          const error = putRequest.error;
+          if (error) {
+            reject(this.handleError(error, 'modify', String(key)));
+          } else {
+            reject(new TransactionAbortedError('Failed to modify record', { storeNames: [this.storeName] }));
+          }
+        };
+      };
+
+      getRequest.onerror = (): void => {
+        const error = getRequest.error;
+        if (error) {
+          reject(this.handleError(error, 'modify', String(key)));
+        } else {
+          reject(new TransactionAbortedError('Failed to get record for modify', { storeNames: [this.storeName] }));
         }
       };
     });
@@ -143,15 +366,15 @@ export class Table<T = unknown> {
   /**
    * Delete a record by primary key
    */
-  async delete(key: IDBValidKey): Promise<void> {
-    const db = await this.db.getDB();
+  async delete(key: TKey): Promise<void> {
+    const transaction = await this.openTransaction('readwrite', 'delete');
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readwrite');
       const store = transaction.objectStore(this.storeName);
-      const request = store.delete(key);
+      const request = undoableWrites(store, this.savepoint).delete(key);
 
       request.onsuccess = () => {
+        this.db.getChangeTracker().trackWrite(transaction, [{ store: this.storeName, type: 'delete', keys: [key] }]);
         resolve();
       };
 
@@ -170,14 +393,14 @@ export class Table<T = unknown> {
    * Clear all records from the table
    */
   async clear(): Promise<void> {
-    const db = await this.db.getDB();
+    const transaction = await this.openTransaction('readwrite', 'clear');
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readwrite');
       const store = transaction.objectStore(this.storeName);
-      const request = store.clear();
+      const request = undoableWrites(store, this.savepoint).clear();
 
       request.onsuccess = () => {
+        this.db.getChangeTracker().trackWrite(transaction, [{ store: this.storeName, type: 'clear', keys: null }]);
         resolve();
       };
 
@@ -194,59 +417,110 @@ export class Table<T = unknown> {
 
   /**
    * Get multiple records by keys
+   * Results line up with `keys`: missing records are `undefined`. Duplicate keys are
+   * read once, and a dense set of keys is read with a single getAll() over its range.
    */
-  async getMany(keys: IDBValidKey[]): Promise<T[]> {
-    const db = await this.db.getDB();
+  async getMany(keys: TKey[]): Promise<Array<T | undefined>> {
+    this.db.getChangeTracker().trackRead(this.storeName, rangesForKeys(keys));
+    const transaction = await this.openTransaction('readonly', 'getMany');
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readonly');
       const store = transaction.objectStore(this.storeName);
-      const results: T[] = [];
-      let completed = 0;
+      const uniqueKeys = normalizeKeys(keys);
+      const values: unknown[] = new Array(uniqueKeys.length);
       let hasError = false;
 
-      if (keys.length === 0) {
-        resolve([]);
+      const finish = (): void => {
+        resolve(keys.map((key) => values[findKeyIndex(uniqueKeys, key)] as T | undefined));
+      };
+
+      const fail = (error: DOMException | null, key?: IDBValidKey): void => {
+        if (hasError) {
+          return;
+        }
+        hasError = true;
+        if (error) {
+          reject(this.handleError(error, 'getMany', key !== undefined ? String(key) : undefined));
+        } else {
+          reject(new TransactionAbortedError('Failed to get records', { storeNames: [this.storeName] }));
+        }
+      };
+
+      const getEach = (): void => {
+        let completed = 0;
+
+        uniqueKeys.forEach((key, i) => {
+          const request = store.get(key);
+
+          request.onsuccess = (): void => {
+            values[i] = request.result;
+            completed++;
+
+            if (completed === uniqueKeys.length && !hasError) {
+              finish();
+            }
+          };
+
+          request.onerror = (): void => {
+            fail(request.error, key);
+          };
+        });
+      };
+
+      const first = uniqueKeys[0];
+      const last = uniqueKeys[uniqueKeys.length - 1];
+
+      if (first === undefined || last === undefined) {
+        finish();
         return;
       }
 
-      for (const key of keys) {
-        const request = store.get(key);
+      if (uniqueKeys.length < DENSE_GET_MIN_KEYS) {
+        getEach();
+        return;
+      }
 
-        request.onsuccess = () => {
-          if (request.result !== undefined) {
-            results.push(request.result as T);
-          }
-          completed++;
+      // Few records between the smallest and largest key: one range read beats a get per key
+      const range = IDBKeyRange.bound(first, last);
+      const countRequest = store.count(range);
 
-          if (completed === keys.length && !hasError) {
-            resolve(results);
-          }
-        };
+      countRequest.onsuccess = (): void => {
+        if (countRequest.result > uniqueKeys.length * DENSE_GET_MAX_RATIO) {
+          getEach();
+          return;
+        }
 
-        request.onerror = () => {
-          if (!hasError) {
-            hasError = true;
-            const error = request.error;
-            if (error) {
-              reject(this.handleError(error, 'getMany', String(key)));
-            } else {
-              reject(new TransactionAbortedError('Failed to get records', { storeNames: [this.storeName] }));
+        const keysRequest = store.getAllKeys(range);
+        const valuesRequest = store.getAll(range);
+
+        valuesRequest.onsuccess = (): void => {
+          const foundKeys = keysRequest.result;
+          valuesRequest.result.forEach((value, i) => {
+            const position = findKeyIndex(uniqueKeys, foundKeys[i]);
+            if (position !== -1) {
+              values[position] = value;
             }
-          }
+          });
+          finish();
         };
-      }
+
+        keysRequest.onerror = (): void => fail(keysRequest.error);
+        valuesRequest.onerror = (): void => fail(valuesRequest.error);
+      };
+
+      countRequest.onerror = (): void => {
+        fail(countRequest.error);
+      };
     });
   }
 
   /**
    * Delete multiple records by keys
    */
-  async deleteMany(keys: IDBValidKey[]): Promise<void> {
-    const db = await this.db.getDB();
+  async deleteMany(keys: TKey[]): Promise<void> {
+    const transaction = await this.openTransaction('readwrite', 'deleteMany');
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readwrite');
       const store = transaction.objectStore(this.storeName);
       let completed = 0;
       let hasError = false;
@@ -256,8 +530,10 @@ export class Table<T = unknown> {
         return;
       }
 
+      this.db.getChangeTracker().trackWrite(transaction, [{ store: this.storeName, type: 'delete', keys: [...keys] }]);
+
       for (const key of keys) {
-        const request = store.delete(key);
+        const request = undoableWrites(store, this.savepoint).delete(key);
 
         request.onsuccess = () => {
           completed++;
@@ -286,10 +562,13 @@ export class Table<T = unknown> {
    * Count records in the table
    */
   async count(key?: IDBValidKey | IDBKeyRange): Promise<number> {
-    const db = await this.db.getDB();
+    this.db.getChangeTracker().trackRead(
+      this.storeName,
+      key === undefined ? null : [key instanceof IDBKeyRange ? key : IDBKeyRange.only(key)]
+    );
+    const transaction = await this.openTransaction('readonly', 'count');
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readonly');
       const store = transaction.objectStore(this.storeName);
       const request = key !== undefined ? store.count(key) : store.count();
 
@@ -311,11 +590,11 @@ export class Table<T = unknown> {
   /**
    * Check if a record exists by primary key
    */
-  async has(key: IDBValidKey): Promise<boolean> {
-    const db = await this.db.getDB();
+  async has(key: TKey): Promise<boolean> {
+    this.db.getChangeTracker().trackRead(this.storeName, [IDBKeyRange.only(key)]);
+    const transaction = await this.openTransaction('readonly', 'has');
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(this.storeName, 'readonly');
       const store = transaction.objectStore(this.storeName);
       const request = store.count(IDBKeyRange.only(key));
 
@@ -338,7 +617,7 @@ export class Table<T = unknown> {
    * Create a query builder for this table
    */
   query(): Query<T> {
-    return new Query<T>(this.db, this.storeName);
+    return new Query<T>(this.db, this.storeName, this.transaction, this.savepoint);
   }
 
   /**
@@ -355,26 +634,90 @@ export class Table<T = unknown> {
     return this.query().whereKey();
   }
 
+  /**
+   * Query records matching a predicate
+   */
+  filter(predicate: (record: T) => boolean): Query<T> {
+    return this.query().filter(predicate);
+  }
+
+  /**
+   * Query all records sorted by a field
+   */
+  sortBy(field: string): Query<T> {
+    return this.query().sortBy(field);
+  }
+
   /**
    * Bulk add records with adaptive batching and retry logic
    */
   async bulkAdd(records: T[], options?: BulkWriteOptions): Promise<BulkWriteResult> {
-    const engine = new BulkWriteEngine<T>(this.db, this.storeName);
+    const engine = new BulkWriteEngine<T, TKey>(this.db, this.storeName, this.transaction, this.savepoint);
     return engine.bulkAdd(records, options);
   }
 
   /**
    * Bulk delete records with adaptive batching and retry logic
    */
-  async bulkDelete(keys: IDBValidKey[], options?: BulkWriteOptions): Promise<BulkWriteResult> {
-    const engine = new BulkWriteEngine<T>(this.db, this.storeName);
+  async bulkDelete(keys: TKey[], options?: BulkWriteOptions): Promise<BulkWriteResult> {
+    const engine = new BulkWriteEngine<T, TKey>(this.db, this.storeName, this.transaction, this.savepoint);
     return engine.bulkDelete(keys, options);
   }
 
   /**
-   * Handle IndexedDB errors and convert to NitroIDB errors
+   * Revision field of this store, or null when it is not versioned
+   */
+  private getVersionField(): string | null {
+    return getVersionField(this.db.schema.stores[this.storeName]);
+  }
+
+  /**
+   * Conflict for a write that expected another version than the stored one, or null
+   */
+  private versionConflict(
+    key: IDBValidKey,
+    current: T | undefined,
+    attempted: T,
+    expectedVersion: number | undefined,
+    versionField: string
+  ): ConflictError<T> | null {
+    const currentVersion = readVersion(current, versionField);
+    if (expectedVersion === undefined || expectedVersion === currentVersion) {
+      return null;
+    }
+    return new ConflictError<T>({
+      storeName: this.storeName,
+      key,
+      current,
+      attempted,
+      expectedVersion,
+      currentVersion,
+      browserInfo: this.db.getBrowserInfo(),
+    });
+  }
+
+  /**
+   * Get a transaction on this store (the bound one inside a transaction callback)
+   */
+  private openTransaction(mode: TransactionMode, operation: string): Promise<IDBTransaction> {
+    return openStoreTransaction(this.db, this.storeName, mode, operation, this.transaction);
+  }
+
+  /**
+   * Convert an IndexedDB error and report it to the database's error listeners
    */
   private handleError(error: DOMException | Error, operation: string, key?: string): Error {
+    return this.db.reportError(this.mapError(error, operation, key), {
+      source: 'table',
+      storeNames: [this.storeName],
+      operation,
+    });
+  }
+
+  /**
+   * Convert IndexedDB errors to NitroIDB errors
+   */
+  private mapError(error: DOMException | Error, operation: string, key?: string): Error {
     const browserInfo = this.db.getBrowserInfo();
 
     if (error.name === 'QuotaExceededError') {
@@ -0,0 +1,173 @@
+import { getValueByKeyPath, isValidKey } from '../utils/key-range.js';
+
+/**
+ * How to undo one write: keys to delete and records to put back
+ */
+interface UndoEntry {
+  storeName: string;
+  remove: IDBValidKey[];
+  restore: Array<[IDBValidKey, unknown]>;
+}
+
+/**
+ * Wait for a request and return its result
+ */
+function requestResult<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.addEventListener('success', () => resolve(request.result));
+    request.addEventListener('error', () => reject(request.error ?? new Error('Request failed')));
+  });
+}
+
+/**
+ * Undo log for the writes made in a `ctx.savepoint()` scope.
+ *
+ * Handles bound to the scope record each write when they issue it (with the
+ * previous records read in the same transaction just before it), so `rollback()`
+ * can put the touched keys back as they were, newest write first.
+ */
+export class Savepoint {
+  private readonly parent: Savepoint | null;
+  private readonly transaction: IDBTransaction;
+  private readonly entries: UndoEntry[] = [];
+  private readonly pending: Promise<unknown>[] = [];
+
+  constructor(parent: Savepoint | null, transaction: IDBTransaction) {
+    this.parent = parent;
+    this.transaction = transaction;
+  }
+
+  /**
+   * Record a write that creates a record; the key is known once `request` succeeds
+   */
+  recordCreate(storeName: string, request: IDBRequest<IDBValidKey>): void {
+    const entry = this.addEntry(storeName);
+    this.track(
+      requestResult(request).then((key) => {
+        entry.remove.push(key);
+      })
+    );
+  }
+
+  /**
+   * Record a write to every record matching `query`, reading them before the write runs
+   */
+  recordOverwrite(store: IDBObjectStore, query: IDBValidKey | IDBKeyRange | null): void {
+    const entry = this.addEntry(store.name);
+    const keys = requestResult(store.getAllKeys(query));
+    const values = requestResult(store.getAll(query));
+    this.track(
+      Promise.all([keys, values]).then(([existingKeys, existingValues]) => {
+        existingKeys.forEach((key, i) => entry.restore.push([key, existingValues[i]]));
+        if (existingKeys.length === 0 && query !== null && !(query instanceof IDBKeyRange)) {
+          entry.remove.push(query);
+        }
+      })
+    );
+  }
+
+  /**
+   * Record a cursor write, which replaces or deletes the record the cursor points at
+   */
+  recordCursor(storeName: string, cursor: IDBCursorWithValue): void {
+    this.addEntry(storeName).restore.push([cursor.primaryKey, cursor.value]);
+  }
+
+  /**
+   * Keep the writes: hand the undo log to the enclosing savepoint, if any
+   */
+  release(): void {
+    if (this.parent) {
+      this.parent.entries.push(...this.entries);
+      this.parent.pending.push(...this.pending);
+    }
+  }
+
+  /**
+   * Undo every write recorded since the savepoint was created, newest first
+   */
+  async rollback(): Promise<void> {
+    await Promise.all(this.pending);
+
+    const requests: Promise<unknown>[] = [];
+    for (const entry of [...this.entries].reverse()) {
+      const store = this.transaction.objectStore(entry.storeName);
+      for (const key of entry.remove) {
+        requests.push(requestResult(store.delete(key)));
+      }
+      for (const [key, value] of entry.restore) {
+        requests.push(requestResult(store.keyPath === null ? store.put(value, key) : store.put(value)));
+      }
+    }
+    await Promise.all(requests);
+  }
+
+  private addEntry(storeName: string): UndoEntry {
+    const entry: UndoEntry = { storeName, remove: [], restore: [] };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  private track(promise: Promise<unknown>): void {
+    // A failed write has nothing to undo; rollback() still waits for it
+    this.pending.push(promise.catch(() => undefined));
+  }
+}
+
+/**
+ * Writes to one object store that the savepoint of a handle can undo
+ */
+export interface UndoableWrites {
+  add(value: unknown): IDBRequest<IDBValidKey>;
+  put(value: unknown): IDBRequest<IDBValidKey>;
+  delete(query: IDBValidKey | IDBKeyRange): IDBRequest<undefined>;
+  clear(): IDBRequest<undefined>;
+  /** `cursor.update()` on a cursor over this store */
+  update(cursor: IDBCursorWithValue, value: unknown): IDBRequest<IDBValidKey>;
+  /** `cursor.delete()` on a cursor over this store */
+  deleteAt(cursor: IDBCursorWithValue): IDBRequest<undefined>;
+}
+
+/**
+ * Issue writes to `store`, recording them in `savepoint` first when the handle
+ * making them is bound to one
+ */
+export function undoableWrites(store: IDBObjectStore, savepoint: Savepoint | null): UndoableWrites {
+  return {
+    add: (value): IDBRequest<IDBValidKey> => {
+      const request = store.add(value);
+      savepoint?.recordCreate(store.name, request);
+      return request;
+    },
+    put: (value): IDBRequest<IDBValidKey> => {
+      const key = savepoint && store.keyPath !== null ? getValueByKeyPath(value, store.keyPath) : undefined;
+      if (!savepoint) {
+        return store.put(value);
+      }
+      if (!isValidKey(key)) {
+        // Generated key: undoing means deleting the new record
+        const request = store.put(value);
+        savepoint.recordCreate(store.name, request);
+        return request;
+      }
+      savepoint.recordOverwrite(store, key);
+      return store.put(value);
+    },
+    delete: (query): IDBRequest<undefined> => {
+      savepoint?.recordOverwrite(store, query);
+      return store.delete(query);
+    },
+    clear: (): IDBRequest<undefined> => {
+      savepoint?.recordOverwrite(store, null);
+      return store.clear();
+    },
+    update: (cursor, value): IDBRequest<IDBValidKey> => {
+      savepoint?.recordCursor(store.name, cursor);
+      return cursor.update(value);
+    },
+    deleteAt: (cursor): IDBRequest<undefined> => {
+      savepoint?.recordCursor(store.name, cursor);
+      return cursor.delete();
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import type { Database } from '../database/database.js';
+import type { TransactionMode, TransactionDurability } from '../types/transaction.js';
+import { TransactionInactiveError } from '../errors/transaction.js';
+
+/**
+ * What handles bound to a `TransactionManager` transaction have done with it
+ */
+export interface TransactionActivity {
+  /** How the transaction finished, or null while it is still running */
+  finished: 'complete' | 'abort' | null;
+  /** The transaction committed while its callback was still running */
+  autoCommitted: boolean;
+  /** Last operation a handle ran in the transaction, e.g. `users.put` */
+  lastOperation?: string;
+  /** Where the last operation was called from (debug mode only) */
+  lastStack?: string;
+}
+
+const activities = new WeakMap<IDBTransaction, TransactionActivity>();
+
+/**
+ * Start tracking the operations handles run in a transaction
+ */
+export function trackTransactionActivity(transaction: IDBTransaction): TransactionActivity {
+  const activity: TransactionActivity = { finished: null, autoCommitted: false };
+  transaction.addEventListener('complete', () => {
+    activity.finished = 'complete';
+  });
+  transaction.addEventListener('abort', () => {
+    activity.finished = 'abort';
+  });
+  activities.set(transaction, activity);
+  return activity;
+}
+
+/**
+ * Get a transaction for an operation on one store: the transaction a handle is
+ * bound to inside `TransactionManager.execute()`, or a new one (with the durability
+ * hint resolved by the database; a bound transaction keeps its own)
+ */
+export async function openStoreTransaction(
+  db: Database,
+  storeName: string,
+  mode: TransactionMode,
+  operation: string,
+  bound?: IDBTransaction,
+  durability?: TransactionDurability
+): Promise<IDBTransaction> {
+  if (!bound) {
+    const idb = await db.getDB();
+    return idb.transaction(storeName, mode, db.getTransactionOptions([storeName], mode, durability));
+  }
+
+  if (!bound.objectStoreNames.contains(storeName)) {
+    const scope = Array.from(bound.objectStoreNames).join(', ');
+    throw new Error(`Store "${storeName}" is not part of this transaction (scope: ${scope})`);
+  }
+  if (mode === 'readwrite' && bound.mode === 'readonly') {
+    throw new Error(`Cannot write to store "${storeName}" in a readonly transaction`);
+  }
+
+  const activity = activities.get(bound);
+  if (activity?.finished) {
+    throw new TransactionInactiveError({
+      browserInfo: db.getBrowserInfo(),
+      storeNames: Array.from(bound.objectStoreNames),
+      operation: `${storeName}.${operation}`,
+      lastOperation: activity.lastOperation,
+      autoCommitted: activity.autoCommitted,
+    });
+  }
+  if (activity) {
+    activity.lastOperation = `${storeName}.${operation}`;
+    if (db.debug) {
+      activity.lastStack = new Error(`Last request before the await: ${activity.lastOperation}`).stack;
+    }
+  }
+  return bound;
+}
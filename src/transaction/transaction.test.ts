@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { createDB } from '../database/index.js';
-import { TransactionTimeoutError, TransactionAbortedError } from '../errors/transaction.js';
+import { TransactionTimeoutError, TransactionAbortedError, TransactionInactiveError } from '../errors/transaction.js';
+import { openTestDB } from '../../tests/helpers.js';
 
 interface User {
   id: string;
@@ -40,10 +41,6 @@ describe('TransactionManager', () => {
   });
 
   it('should execute readonly transaction', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -73,10 +70,6 @@ describe('TransactionManager', () => {
   });
 
   it('should execute readwrite transaction', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -101,10 +94,6 @@ describe('TransactionManager', () => {
   });
 
   it('should handle transaction with multiple stores', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -131,10 +120,6 @@ describe('TransactionManager', () => {
   });
 
   it('should timeout long-running transactions', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -146,7 +131,7 @@ describe('TransactionManager', () => {
     await db.open();
 
     await expect(
-      db.transaction.readonly('users', async (ctx) => {
+      db.transaction.readonly('users', async () => {
         // Simulate long operation
         await new Promise((resolve) => setTimeout(resolve, 2000));
         return 'done';
@@ -157,10 +142,6 @@ describe('TransactionManager', () => {
   });
 
   it('should retry failed transactions', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -172,7 +153,7 @@ describe('TransactionManager', () => {
     await db.open();
 
     let attempt = 0;
-    const result = await db.transaction.readwrite('users', (ctx) => {
+    await db.transaction.readwrite('users', (ctx) => {
       attempt++;
       if (attempt === 1) {
         // Simulate failure on first attempt
@@ -193,10 +174,6 @@ describe('TransactionManager', () => {
   });
 
   it('should handle synchronous callbacks', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -211,7 +188,7 @@ describe('TransactionManager', () => {
 
     const result = await db.transaction.readonly('users', (ctx) => {
       const store = ctx.transaction.objectStore('users');
-      const request = store.get('1');
+      store.get('1');
       // Synchronous return (though the actual operation is async)
       return 'success';
     });
@@ -222,10 +199,6 @@ describe('TransactionManager', () => {
   });
 
   it('should handle async callbacks', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -255,10 +228,6 @@ describe('TransactionManager', () => {
   });
 
   it('should abort transaction on error', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -270,7 +239,7 @@ describe('TransactionManager', () => {
     await db.open();
 
     await expect(
-      db.transaction.readwrite('users', (ctx) => {
+      db.transaction.readwrite('users', () => {
         throw new Error('Test error');
       })
     ).rejects.toThrow('Test error');
@@ -279,10 +248,6 @@ describe('TransactionManager', () => {
   });
 
   it('should provide transaction context', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -303,10 +268,6 @@ describe('TransactionManager', () => {
   });
 
   it('should handle explicit abort', async () => {
-    if (typeof indexedDB === 'undefined') {
-      return;
-    }
-
     const db = createDB({
       name: testDBName,
       version: 1,
@@ -325,5 +286,285 @@ describe('TransactionManager', () => {
 
     db.close();
   });
-});
 
+  it('should bind ctx.table() and ctx.kv to the transaction', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+      orders: { primaryKey: 'id' },
+    });
+
+    const result = await db.transaction.readwrite(['users', 'orders', '__kv__'], async (ctx) => {
+      await ctx.table<User>('users').put({ id: '1', name: 'John', email: 'john@example.com' });
+      await ctx.table('orders').bulkAdd([{ id: 'o1', userId: '1' }, { id: 'o2', userId: '1' }]);
+      await ctx.kv.set('lastOrder', 'o2');
+      const orders = await ctx.table('orders').query().keys();
+      return { users: await ctx.table('users').count(), orders };
+    });
+
+    expect(result).toEqual({ users: 1, orders: ['o1', 'o2'] });
+    expect(await db.table('orders').count()).toBe(2);
+    expect(await db.kv.has('lastOrder')).toBe(true);
+
+    db.close();
+  });
+
+  it('should roll back every handle write when the callback throws', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+      orders: { primaryKey: 'id' },
+    });
+
+    await expect(
+      db.transaction.readwrite(['users', 'orders'], async (ctx) => {
+        await ctx.table('users').add({ id: '1' });
+        await ctx.table('orders').add({ id: 'o1' });
+        throw new Error('payment failed');
+      })
+    ).rejects.toThrow('payment failed');
+
+    expect(await db.table('users').count()).toBe(0);
+    expect(await db.table('orders').count()).toBe(0);
+
+    db.close();
+  });
+
+  it('should reject handle operations outside the transaction scope or mode', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+      orders: { primaryKey: 'id' },
+    });
+
+    await expect(
+      db.transaction.readwrite('users', (ctx) => ctx.table('orders').get('o1'))
+    ).rejects.toThrow('Store "orders" is not part of this transaction (scope: users)');
+    await expect(
+      db.transaction.readonly('users', (ctx) => ctx.table('users').put({ id: '1' }))
+    ).rejects.toThrow('Cannot write to store "users" in a readonly transaction');
+
+    db.close();
+  });
+
+  it('should name the operation an auto-commit happened after', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+    });
+
+    const error = await db.transaction
+      .readwrite('users', async (ctx) => {
+        await ctx.table('users').put({ id: '1' });
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        await ctx.table('users').get('1');
+      })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TransactionInactiveError);
+    expect((error as TransactionInactiveError).message).toContain('"users.get"');
+    expect((error as TransactionInactiveError).message).toContain('after "users.put"');
+    // The write before the await committed
+    expect(await db.table('users').count()).toBe(1);
+
+    db.close();
+  });
+
+  it('should warn with a stack trace on auto-commit in debug mode', async () => {
+    const db = createDB({
+      name: testDBName + '-auto-commit-debug',
+      version: 1,
+      debug: true,
+      stores: {
+        users: { primaryKey: 'id' },
+      },
+    });
+    await db.open();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await db.transaction.readwrite('users', async (ctx) => {
+      await ctx.table('users').put({ id: '1' });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    const messages = warn.mock.calls.map((args) => args.map(String).join(' '));
+    const autoCommit = messages.find((message) => message.includes('committed while its callback'));
+    expect(autoCommit).toContain('last request: users.put');
+    expect(autoCommit).toContain('Last request before the await: users.put');
+    warn.mockRestore();
+
+    db.close();
+  });
+
+  it('should join transactions started inside a callback and roll them back with it', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+      orders: { primaryKey: 'id' },
+    });
+
+    const placeOrder = (id: string): Promise<IDBTransaction> =>
+      db.transaction.readwrite('orders', async (ctx) => {
+        await ctx.table('orders').add({ id });
+        return ctx.transaction;
+      });
+
+    const transactions: IDBTransaction[] = [];
+    await expect(
+      db.transaction.readwrite(['users', 'orders'], async (ctx) => {
+        transactions.push(ctx.transaction);
+        await ctx.table('users').add({ id: '1' });
+        transactions.push(await placeOrder('o1'));
+        throw new Error('payment failed');
+      })
+    ).rejects.toThrow('payment failed');
+
+    expect(transactions[1]).toBe(transactions[0]);
+    expect(await db.table('users').count()).toBe(0);
+    expect(await db.table('orders').count()).toBe(0);
+
+    // Outside a callback it still opens its own transaction
+    await placeOrder('o2');
+    expect(await db.table('orders').count()).toBe(1);
+
+    db.close();
+  });
+
+  it('should undo only the writes of a failed nested transaction', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+      orders: { primaryKey: 'id' },
+    });
+
+    await db.transaction.readwrite(['users', 'orders'], async (ctx) => {
+      await ctx.table('users').add({ id: '1' });
+      await expect(
+        db.transaction.readwrite('orders', async (inner) => {
+          await inner.table('orders').add({ id: 'o1' });
+          throw new Error('out of stock');
+        })
+      ).rejects.toThrow('out of stock');
+      await ctx.table('orders').add({ id: 'o2' });
+    });
+
+    expect(await db.table('users').count()).toBe(1);
+    expect(await db.table('orders').get('o1')).toBeUndefined();
+    expect(await db.table('orders').get('o2')).toEqual({ id: 'o2' });
+
+    db.close();
+  });
+
+  it('should reject nested transactions outside the enclosing scope or mode', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+      orders: { primaryKey: 'id' },
+    });
+
+    await expect(
+      db.transaction.readwrite('users', () => db.transaction.readonly(['users', 'orders'], () => null))
+    ).rejects.toThrow('Nested transaction on "orders" cannot join the enclosing transaction (scope: users)');
+    await expect(
+      db.transaction.readonly('users', async (ctx) => {
+        await ctx.table('users').get('1');
+        return db.transaction.readwrite('users', () => null);
+      })
+    ).rejects.toThrow('Nested readwrite transaction cannot join the enclosing readonly transaction');
+
+    db.close();
+  });
+
+  it('should keep concurrent transactions independent', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+      orders: { primaryKey: 'id' },
+    });
+
+    const failing = db.transaction.readwrite('users', async (ctx) => {
+      await ctx.table('users').add({ id: '1' });
+      await ctx.table('users').add({ id: '2' });
+      throw new Error('payment failed');
+    });
+    const committing = db.transaction.readwrite('orders', async (ctx) => {
+      await ctx.table('orders').add({ id: 'o1' });
+      // Joins this transaction, not the one running alongside it
+      const nested = await db.transaction.readwrite('orders', async (inner) => {
+        await inner.table('orders').add({ id: 'o2' });
+        return inner.transaction;
+      });
+      return nested === ctx.transaction;
+    });
+
+    const [failed, joined] = await Promise.allSettled([failing, committing]);
+    expect(failed?.status).toBe('rejected');
+    expect(joined).toEqual({ status: 'fulfilled', value: true });
+    expect(await db.table('users').count()).toBe(0);
+    expect(await db.table('orders').count()).toBe(2);
+
+    db.close();
+  });
+
+  it('should undo only the writes of a failed savepoint', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+      logs: { primaryKey: 'id', autoIncrement: true },
+    });
+    await db.table('users').bulkAdd([
+      { id: '1', name: 'John' },
+      { id: '2', name: 'Jane' },
+    ]);
+
+    await db.transaction.readwrite(['users', 'logs', '__kv__'], async (ctx) => {
+      await ctx.table('users').update('1', { name: 'Johnny' });
+
+      await expect(
+        ctx.savepoint(async (inner) => {
+          expect(inner.transaction).toBe(ctx.transaction);
+          await inner.table('users').put({ id: '1', name: 'Jonathan' });
+          await inner.table('users').delete('2');
+          await inner.table('users').add({ id: '3', name: 'Jim' });
+          await inner.table('logs').add({ message: 'renamed' });
+          await inner.kv.set('renamed', true);
+          throw new Error('validation failed');
+        })
+      ).rejects.toThrow('validation failed');
+
+      await ctx.table('users').add({ id: '4', name: 'Joan' });
+    });
+
+    expect(await db.table('users').query().toArray()).toEqual([
+      { id: '1', name: 'Johnny' },
+      { id: '2', name: 'Jane' },
+      { id: '4', name: 'Joan' },
+    ]);
+    expect(await db.table('logs').count()).toBe(0);
+    expect(await db.kv.has('renamed')).toBe(false);
+
+    db.close();
+  });
+
+  it('should undo the released writes of nested savepoints with their enclosing one', async () => {
+    const db = await openTestDB({
+      users: { primaryKey: 'id' },
+    });
+
+    const result = await db.transaction.readwrite('users', async (ctx) => {
+      await expect(
+        ctx.savepoint(async (outer) => {
+          await outer.table('users').add({ id: '1' });
+          await outer.savepoint(async (inner) => {
+            await inner
+              .table<{ id: string; name?: string }>('users')
+              .query()
+              .modify((user) => ({ ...user, name: 'Renamed' }));
+            await inner.table('users').add({ id: '2' });
+          });
+          throw new Error('outer failed');
+        })
+      ).rejects.toThrow('outer failed');
+
+      return ctx.savepoint((inner) => inner.table('users').count());
+    });
+
+    expect(result).toBe(0);
+    expect(await db.table('users').count()).toBe(0);
+
+    db.close();
+  });
+});
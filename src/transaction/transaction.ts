@@ -1,15 +1,64 @@
 import type { Database } from '../database/database.js';
-import type { TransactionMode, TransactionOptions, TransactionContext, TransactionCallback } from '../types/transaction.js';
-import { TransactionTimeoutError, TransactionAbortedError } from '../errors/transaction.js';
+import type {
+  TransactionMode,
+  TransactionDurability,
+  TransactionOptions,
+  TransactionContext,
+  TransactionCallback,
+} from '../types/transaction.js';
+import type { TableMap, KeyMap } from '../types/schema.js';
+import { TransactionTimeoutError, TransactionAbortedError, TransactionInactiveError } from '../errors/transaction.js';
+import { Table } from '../table/table.js';
+import { KVStore } from '../kv/kv-store.js';
+import { trackTransactionActivity } from './store-transaction.js';
+import type { TransactionActivity } from './store-transaction.js';
+import { Savepoint } from './savepoint.js';
+
+/**
+ * A transaction callback, or a nested scope joined to its transaction, that is still running
+ */
+interface RunningScope {
+  transaction: IDBTransaction;
+  activity: TransactionActivity;
+  storeNames: string[];
+  mode: TransactionMode;
+  /** Undo log of a savepoint scope (null for the outermost callback and readonly transactions) */
+  savepoint: Savepoint | null;
+}
+
+/**
+ * Whether a transaction accepts requests right now. `get(null)` checks this
+ * before the key, so it throws without creating a request either way.
+ */
+function isTransactionActive(transaction: IDBTransaction): boolean {
+  const storeName = transaction.objectStoreNames.item(0);
+  if (storeName === null) {
+    return false;
+  }
+  try {
+    transaction.objectStore(storeName).get(null as unknown as IDBValidKey);
+  } catch (error) {
+    return error instanceof Error && error.name === 'DataError';
+  }
+  return true;
+}
 
 /**
  * Transaction manager
  */
-export class TransactionManager {
+export class TransactionManager<
+  out TTables extends TableMap = TableMap,
+  out TKeys extends KeyMap<TTables> = KeyMap<TTables>,
+> {
   private readonly db: Database;
   private readonly defaultTimeout: number;
   private readonly defaultRetries: number;
   private readonly defaultRetryDelay: number;
+  /** Callbacks and joined scopes that are running, innermost last */
+  private readonly running: RunningScope[] = [];
+  /** Transaction whose code runs right now: the start of its callback, or what follows one of its requests */
+  private current: IDBTransaction | null = null;
+  private resetScheduled = false;
 
   constructor(
     db: Database,
@@ -27,14 +76,24 @@ export class TransactionManager {
 
   /**
    * Execute a transaction with automatic retry and timeout handling
+   *
+   * Called from inside another transaction callback while its transaction is
+   * active, the callback joins that transaction instead (its options are ignored)
+   * and runs as a savepoint: if it throws, only the writes it made are undone
+   * before the error reaches the caller.
    */
   async execute<T>(
     stores: string | string[],
     mode: TransactionMode,
-    callback: TransactionCallback<T>,
+    callback: TransactionCallback<T, TTables, TKeys>,
     options?: TransactionOptions
   ): Promise<T> {
     const storeNames = Array.isArray(stores) ? stores : [stores];
+    const outer = this.enclosingScope();
+    if (outer) {
+      return this.join(outer, storeNames, mode, callback);
+    }
+
     const timeout = options?.timeout ?? this.defaultTimeout;
     const maxRetries = options?.retries ?? this.defaultRetries;
     const retryDelay = options?.retryDelay ?? this.defaultRetryDelay;
@@ -44,10 +103,15 @@ export class TransactionManager {
 
     while (attempt <= maxRetries) {
       try {
-        return await this.executeWithTimeout(storeNames, mode, callback, timeout);
+        return await this.executeWithTimeout(storeNames, mode, callback, timeout, options?.durability);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
 
+        // Retrying would auto-commit at the same await again
+        if (lastError instanceof TransactionInactiveError) {
+          throw this.db.reportError(lastError, { source: 'transaction', storeNames });
+        }
+
         // Don't retry on certain errors
         if (
           lastError instanceof TransactionTimeoutError ||
@@ -57,7 +121,7 @@ export class TransactionManager {
           const isRetryable = this.isRetryableError(lastError);
 
           if (!isRetryable || attempt >= maxRetries) {
-            throw lastError;
+            throw this.db.reportError(lastError, { source: 'transaction', storeNames });
           }
         } else if (attempt >= maxRetries) {
           throw lastError;
@@ -79,8 +143,9 @@ export class TransactionManager {
   private async executeWithTimeout<T>(
     storeNames: string[],
     mode: TransactionMode,
-    callback: TransactionCallback<T>,
-    timeout: number
+    callback: TransactionCallback<T, TTables, TKeys>,
+    timeout: number,
+    durability?: TransactionDurability
   ): Promise<T> {
     const db = await this.db.getDB();
 
@@ -88,13 +153,27 @@ export class TransactionManager {
       let timeoutId: ReturnType<typeof setTimeout> | null = null;
       let transactionCompleted = false;
 
-      const transaction = db.transaction(storeNames, mode);
+      const transaction = db.transaction(storeNames, mode, this.db.getTransactionOptions(storeNames, mode, durability));
+      const activity = trackTransactionActivity(transaction);
+      this.trackCurrent(transaction);
+
+      if (mode === 'readwrite') {
+        // Writes made through the raw transaction are not tracked per key
+        this.db.getChangeTracker().trackWrite(
+          transaction,
+          storeNames.map((store) => ({ store, type: 'write', keys: null }))
+        );
+      }
 
       // Set timeout
       timeoutId = setTimeout(() => {
         if (!transactionCompleted) {
           transactionCompleted = true;
-          transaction.abort();
+          try {
+            transaction.abort();
+          } catch {
+            // Already committed while the callback kept running
+          }
           const browserInfo = this.db.getBrowserInfo();
           reject(
             new TransactionTimeoutError(timeout, {
@@ -157,15 +236,10 @@ export class TransactionManager {
 
       // Execute callback
       try {
-        const context: TransactionContext = {
-          transaction,
-          mode,
-          abort: () => {
-            transaction.abort();
-          },
-        };
-
-        const result = callback(context);
+        const context = this.createContext(transaction, mode, activity, storeNames, null);
+        const result = this.runScope({ transaction, activity, storeNames, mode, savepoint: null }, () =>
+          callback(context)
+        );
 
         // Handle async callbacks
         if (result instanceof Promise) {
@@ -198,19 +272,24 @@ export class TransactionManager {
                 if (timeoutId) {
                   clearTimeout(timeoutId);
                 }
-                transaction.abort();
-                reject(error);
+                try {
+                  transaction.abort();
+                } catch {
+                  // Already committed at a non-IndexedDB await
+                }
+                reject(this.mapCallbackError(error, activity, storeNames));
               }
             });
 
-          // Override oncomplete to also check promise resolution
-          const originalOnComplete = handleComplete;
-          transaction.oncomplete = (ev: Event): void => {
-            originalOnComplete(ev);
-            if (!transactionCompleted) {
-              transactionResolved = true;
-              checkComplete();
+          // Override oncomplete to also check promise resolution (handleComplete
+          // would mark the transaction completed before checkComplete() runs)
+          transaction.oncomplete = (): void => {
+            transactionResolved = true;
+            if (!promiseResolved) {
+              activity.autoCommitted = true;
+              this.warnAutoCommit(activity, storeNames);
             }
+            checkComplete();
           };
         } else {
           // Synchronous callback - wait for transaction to complete
@@ -235,6 +314,197 @@ export class TransactionManager {
     });
   }
 
+  /**
+   * Callback context for a transaction; its handles record writes in `savepoint` (if any)
+   */
+  private createContext(
+    transaction: IDBTransaction,
+    mode: TransactionMode,
+    activity: TransactionActivity,
+    storeNames: string[],
+    savepoint: Savepoint | null
+  ): TransactionContext<TTables, TKeys> {
+    return {
+      transaction,
+      mode,
+      abort: (): void => {
+        transaction.abort();
+      },
+      table: ((storeName: string) =>
+        new Table(this.db, storeName, transaction, savepoint)) as TransactionContext<TTables, TKeys>['table'],
+      kv: new KVStore(this.db, '__kv__', '', transaction, savepoint),
+      savepoint: (callback) => this.runSavepoint(transaction, mode, activity, storeNames, savepoint, callback),
+    };
+  }
+
+  /**
+   * Run a `ctx.savepoint()` callback, undoing the writes of its handles if it fails
+   */
+  private async runSavepoint<R>(
+    transaction: IDBTransaction,
+    mode: TransactionMode,
+    activity: TransactionActivity,
+    storeNames: string[],
+    parent: Savepoint | null,
+    callback: TransactionCallback<R, TTables, TKeys>
+  ): Promise<R> {
+    // A readonly transaction has no writes to undo
+    const savepoint = mode === 'readwrite' ? new Savepoint(parent, transaction) : null;
+    const context = this.createContext(transaction, mode, activity, storeNames, savepoint);
+    try {
+      const result = await this.runScope({ transaction, activity, storeNames, mode, savepoint }, () =>
+        callback(context)
+      );
+      savepoint?.release();
+      return result;
+    } catch (error) {
+      try {
+        await savepoint?.rollback();
+      } catch {
+        // The transaction is gone, so the enclosing callback fails as a whole
+      }
+      throw this.mapCallbackError(error, activity, storeNames);
+    }
+  }
+
+  /**
+   * Run a nested `execute()` callback in the enclosing transaction as a savepoint
+   */
+  private join<T>(
+    outer: RunningScope,
+    storeNames: string[],
+    mode: TransactionMode,
+    callback: TransactionCallback<T, TTables, TKeys>
+  ): Promise<T> {
+    const outside = storeNames.filter((name) => !outer.storeNames.includes(name));
+    if (outside.length > 0) {
+      throw new Error(
+        `Nested transaction on ${outside.map((name) => `"${name}"`).join(', ')} cannot join the enclosing transaction (scope: ${outer.storeNames.join(', ')})`
+      );
+    }
+    if (mode === 'readwrite' && outer.mode === 'readonly') {
+      throw new Error('Nested readwrite transaction cannot join the enclosing readonly transaction');
+    }
+
+    return this.runSavepoint(outer.transaction, outer.mode, outer.activity, outer.storeNames, outer.savepoint, callback);
+  }
+
+  /**
+   * Innermost running scope of the current transaction, if that transaction is active
+   */
+  private enclosingScope(): RunningScope | null {
+    const transaction = this.current;
+    if (!transaction) {
+      return null;
+    }
+
+    // Unrelated code can run between requests: only an active transaction is enclosing it
+    const scope = this.running.filter((running) => running.transaction === transaction).pop();
+    if (!scope || scope.activity.finished || !isTransactionActive(transaction)) {
+      return null;
+    }
+    return scope;
+  }
+
+  /**
+   * Run a callback as `scope`, the current transaction during its synchronous part
+   */
+  private runScope<T>(scope: RunningScope, run: () => T | Promise<T>): T | Promise<T> {
+    const previous = this.current;
+    this.running.push(scope);
+    this.current = scope.transaction;
+    let result: T | Promise<T>;
+    try {
+      result = run();
+    } catch (error) {
+      this.leave(scope);
+      throw error;
+    } finally {
+      this.current = previous;
+    }
+
+    if (result instanceof Promise) {
+      void result.then(
+        () => this.leave(scope),
+        () => this.leave(scope)
+      );
+    } else {
+      this.leave(scope);
+    }
+    return result;
+  }
+
+  /**
+   * Forget a scope once its callback has settled
+   */
+  private leave(scope: RunningScope): void {
+    const index = this.running.indexOf(scope);
+    if (index !== -1) {
+      this.running.splice(index, 1);
+    }
+  }
+
+  /**
+   * Make `transaction` current while its request events are dispatched, which
+   * is when the callback continues after awaiting them
+   */
+  private trackCurrent(transaction: IDBTransaction): void {
+    const enter = (): void => {
+      this.current = transaction;
+      // The continuations run before the next task, so no transaction is current after them
+      if (!this.resetScheduled) {
+        this.resetScheduled = true;
+        setTimeout(() => {
+          this.resetScheduled = false;
+          this.current = null;
+        }, 0);
+      }
+    };
+    transaction.addEventListener('success', enter, true);
+    transaction.addEventListener('error', enter, true);
+  }
+
+  /**
+   * Convert the error an async callback failed with, turning IndexedDB's
+   * TransactionInactiveError into a NitroIDB error naming the last operation
+   */
+  private mapCallbackError(error: unknown, activity: TransactionActivity, storeNames: string[]): unknown {
+    if (!(error instanceof Error)) {
+      return error;
+    }
+
+    // objectStore() on a finished transaction throws InvalidStateError instead
+    const inactive =
+      error.name === 'TransactionInactiveError' ||
+      (activity.autoCommitted && error.name === 'InvalidStateError');
+    if (!inactive || error instanceof TransactionInactiveError) {
+      return error;
+    }
+
+    return new TransactionInactiveError({
+      browserInfo: this.db.getBrowserInfo(),
+      storeNames,
+      lastOperation: activity.lastOperation,
+      autoCommitted: activity.autoCommitted,
+    });
+  }
+
+  /**
+   * In debug mode, warn with the stack of the last operation when a transaction
+   * commits while its callback is still awaiting something
+   */
+  private warnAutoCommit(activity: TransactionActivity, storeNames: string[]): void {
+    const message =
+      `Transaction on ${storeNames.join(', ')} committed while its callback was still running` +
+      (activity.lastOperation ? ` (last request: ${activity.lastOperation})` : '') +
+      '. The callback awaited something that is not an IndexedDB request; later requests in it will fail.';
+    if (activity.lastStack) {
+      this.db.logDebug(message, `\n${activity.lastStack}`);
+    } else {
+      this.db.logDebug(message);
+    }
+  }
+
   /**
    * Check if error is retryable
    */
@@ -269,7 +539,7 @@ export class TransactionManager {
    */
   async readonly<T>(
     stores: string | string[],
-    callback: TransactionCallback<T>,
+    callback: TransactionCallback<T, TTables, TKeys>,
     options?: TransactionOptions
   ): Promise<T> {
     return this.execute(stores, 'readonly', callback, options);
@@ -280,7 +550,7 @@ export class TransactionManager {
    */
   async readwrite<T>(
     stores: string | string[],
-    callback: TransactionCallback<T>,
+    callback: TransactionCallback<T, TTables, TKeys>,
     options?: TransactionOptions
   ): Promise<T> {
     return this.execute(stores, 'readwrite', callback, options);
@@ -0,0 +1,137 @@
+import type { StoreChange } from './live.js';
+import type { EvictionRisk } from './health.js';
+
+/**
+ * A committed write, from this tab or another one
+ */
+export interface DatabaseChangeEvent extends StoreChange {
+  /** Whether the write was committed by another tab */
+  remote: boolean;
+}
+
+/**
+ * Another tab requested a version change (or deletion) of the database
+ */
+export interface VersionChangeEvent {
+  /** Version of the open connection */
+  oldVersion: number;
+  /** Requested version (null when the database is being deleted) */
+  newVersion: number | null;
+  /** Whether the connection was closed by the version change policy */
+  closed: boolean;
+}
+
+/**
+ * An upgrade is waiting for connections in other tabs to close
+ */
+export interface UpgradeBlockedEvent {
+  /** Version currently held by the other connections */
+  oldVersion: number;
+  /** Version being opened */
+  newVersion: number;
+}
+
+/**
+ * The connection was opened
+ */
+export interface DatabaseOpenEvent {
+  /** Name of the database */
+  name: string;
+  /** Version of the open connection */
+  version: number;
+}
+
+/**
+ * The database is being upgraded (fired from `onupgradeneeded`)
+ */
+export interface DatabaseUpgradeEvent {
+  /** Version before the upgrade (0 when the database is created) */
+  oldVersion: number;
+  /** Version being upgraded to */
+  newVersion: number;
+}
+
+/**
+ * A migration step is about to run
+ */
+export interface MigrationStartEvent {
+  /** Version migrated from */
+  fromVersion: number;
+  /** Version migrated to */
+  toVersion: number;
+  /** Description of the migration, when it has one */
+  description?: string;
+}
+
+/**
+ * A migration step finished
+ */
+export interface MigrationEndEvent extends MigrationStartEvent {
+  /** Whether the step succeeded */
+  success: boolean;
+  /** Duration in milliseconds */
+  duration: number;
+  /** Error if the step failed */
+  error?: Error;
+}
+
+/**
+ * Subsystem that reported an error
+ */
+export type ErrorSource = 'open' | 'migration' | 'table' | 'query' | 'kv' | 'bulk' | 'transaction';
+
+/**
+ * An operation failed
+ */
+export interface DatabaseErrorEvent {
+  /** The error passed on to the caller */
+  error: Error;
+  /** Subsystem that failed */
+  source: ErrorSource;
+  /** Stores involved, when known */
+  storeNames?: string[];
+  /** Operation that failed, when known */
+  operation?: string;
+}
+
+/**
+ * Storage is full or close to it
+ */
+export interface QuotaWarningEvent {
+  /** Where the warning came from ('health' for quota checks) */
+  source: ErrorSource | 'health';
+  /** The quota error, when a write failed */
+  error?: Error;
+  /** Percentage of quota used, when known */
+  usagePercent?: number;
+  /** Eviction risk, when known */
+  evictionRisk?: EvictionRisk;
+}
+
+/**
+ * Events emitted by a database, with their listener signatures
+ */
+export interface DatabaseEvents {
+  /** A write to a store was committed */
+  change: (event: DatabaseChangeEvent) => void;
+  /** Another tab wants to upgrade or delete the database */
+  versionchange: (event: VersionChangeEvent) => void;
+  /** Opening is blocked by connections in other tabs */
+  blocked: (event: UpgradeBlockedEvent) => void;
+  /** The connection was opened */
+  open: (event: DatabaseOpenEvent) => void;
+  /** The connection was closed by `close()` or the version change policy */
+  close: () => void;
+  /** The browser closed the connection (e.g. storage was cleared) */
+  unexpectedClose: () => void;
+  /** The schema is being upgraded */
+  upgrade: (event: DatabaseUpgradeEvent) => void;
+  /** A migration step is about to run */
+  'migration:start': (event: MigrationStartEvent) => void;
+  /** A migration step finished */
+  'migration:end': (event: MigrationEndEvent) => void;
+  /** An operation failed */
+  error: (event: DatabaseErrorEvent) => void;
+  /** Storage is full or close to it */
+  quotaWarning: (event: QuotaWarningEvent) => void;
+}
@@ -38,6 +38,8 @@ export interface HealthCheckResult {
   timestamp: number;
   /** Database connection status */
   connected: boolean;
+  /** Whether an upgrade is waiting for other tabs to close their connections */
+  upgradeBlocked?: boolean;
   /** Storage quota information */
   storage: StorageQuota;
   /** Eviction risk assessment */
@@ -58,6 +60,8 @@ export interface HealthCheckResult {
     canWrite: boolean;
     /** Can close database */
     canClose: boolean;
+    /** Error code when opening failed (e.g. 'OPEN_TIMEOUT') */
+    openError?: string;
   };
 }
 
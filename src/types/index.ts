@@ -6,3 +6,6 @@ export * from './health.js';
 export * from './migration.js';
 export * from './diagnostics.js';
 
+export * from './live.js';
+
+export * from './events.js';
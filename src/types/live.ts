@@ -0,0 +1,34 @@
+/**
+ * Kind of write reported to change listeners
+ */
+export type ChangeType = 'add' | 'put' | 'update' | 'delete' | 'clear' | 'write';
+
+/**
+ * A committed write to one store
+ */
+export interface StoreChange {
+  /** Store name */
+  store: string;
+  /** Kind of write */
+  type: ChangeType;
+  /** Primary keys written (null when unknown or the whole store changed) */
+  keys: IDBValidKey[] | null;
+}
+
+/**
+ * Live query options
+ */
+export interface LiveQueryOptions {
+  /** Delay in milliseconds before re-running after a burst of writes (default: 50) */
+  debounce?: number;
+}
+
+/**
+ * Handle returned by `subscribe()`
+ */
+export interface LiveQuerySubscription {
+  /** Whether the subscription has been closed */
+  readonly closed: boolean;
+  /** Stop receiving results */
+  unsubscribe: () => void;
+}
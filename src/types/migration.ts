@@ -1,4 +1,5 @@
 import type { BrowserInfo } from './browser.js';
+import type { Database } from '../database/database.js';
 
 /**
  * Migration function type
@@ -9,6 +10,29 @@ export type MigrationFunction = (
   db: IDBDatabase
 ) => void | Promise<void>;
 
+/**
+ * What a data migration gets to work with
+ */
+export interface DataMigrationContext {
+  /** The database as seen by this migration; use `db.table()` and `db.kv` as usual (other callers wait until it finishes) */
+  db: Database;
+  /** Version the data is migrated from */
+  fromVersion: number;
+  /** Version the data is migrated to */
+  toVersion: number;
+  /** Value last passed to `saveCheckpoint()` by an interrupted run of this migration */
+  checkpoint: unknown;
+  /** Store progress so a run interrupted by a reload resumes from here */
+  saveCheckpoint: (checkpoint: unknown) => Promise<void>;
+}
+
+/**
+ * Data migration that runs after the upgrade has committed, outside `onupgradeneeded`
+ * Runs again (with the last checkpoint) until it resolves, so it should be safe to
+ * repeat from a checkpoint.
+ */
+export type DataMigration = (context: DataMigrationContext) => Promise<void>;
+
 /**
  * Migration definition
  */
@@ -25,6 +49,12 @@ export interface Migration {
   rollback?: MigrationFunction;
 }
 
+/**
+ * A migration as given in `DatabaseOptions.migrations`: a bare function or a full
+ * `Migration` object registered under its own version
+ */
+export type MigrationDefinition = MigrationFunction | Migration;
+
 /**
  * Migration execution result
  */
@@ -59,6 +89,8 @@ export interface MigrationHistoryEntry {
   error?: string;
   /** Migration description */
   description?: string;
+  /** Duration in milliseconds */
+  duration?: number;
 }
 
 /**
@@ -1,3 +1,44 @@
+import type { TransactionDurability } from './transaction.js';
+import type { DataMigration, MigrationDefinition } from './migration.js';
+
+/**
+ * Map of store names to the record type stored in each store
+ */
+export type TableMap = Record<string, unknown>;
+
+/**
+ * Record properties that can be used as an IndexedDB key
+ */
+export type KeyPropertyOf<T> = {
+  [P in keyof T & string]: T[P] extends IDBValidKey ? P : never;
+}[keyof T & string];
+
+/**
+ * Valid key path for a record type (any string when the record type is unknown)
+ */
+export type KeyPathOf<T> = unknown extends T
+  ? string | string[]
+  : KeyPropertyOf<T> | KeyPropertyOf<T>[];
+
+/**
+ * Primary key type derived from a record type and its key path
+ * (any key when the path is not a literal, i.e. the store definitions were not inferred)
+ */
+export type PrimaryKeyOf<T, P> = unknown extends T
+  ? IDBValidKey
+  : KeyPathOf<T> extends P
+    ? IDBValidKey
+    : Extract<PrimaryKeyOfPath<T, P>, IDBValidKey>;
+
+/**
+ * Primary key type for a literal key path
+ */
+type PrimaryKeyOfPath<T, P> = P extends string[]
+  ? { [I in keyof P]: P[I] extends keyof T ? T[P[I]] : IDBValidKey }
+  : P extends keyof T
+    ? T[P]
+    : IDBValidKey;
+
 /**
  * Index definition for object stores
  */
@@ -15,15 +56,61 @@ export interface IndexDefinition {
 /**
  * Object store definition
  */
-export interface StoreDefinition {
+export interface StoreDefinition<T = unknown> {
   /** Primary key path (string or array for compound keys) */
-  primaryKey: string | string[];
+  primaryKey: KeyPathOf<T>;
   /** Whether the primary key should auto-increment */
   autoIncrement?: boolean;
   /** Index definitions for this store */
   indexes?: IndexDefinition[];
+  /** Durability hint for writes to this store, e.g. `relaxed` for cache data (default: the database's durability) */
+  durability?: TransactionDurability;
+  /** Keep a revision number in every record and reject writes based on a stale version */
+  versioned?: boolean;
+  /** Record field holding the revision of a versioned store (default: '_version') */
+  versionField?: string;
+  /**
+   * Rewrite each record copied over when a `primaryKey` or `autoIncrement` change
+   * recreates the store, e.g. to fill in the new key; return undefined to leave it out
+   */
+  transformOnRecreate?: (record: unknown) => T | undefined;
 }
 
+/**
+ * Store definitions for every store declared in a table map
+ */
+export type StoreDefinitions<TTables extends TableMap = TableMap> = {
+  [K in keyof TTables & string]: StoreDefinition<TTables[K]>;
+};
+
+/**
+ * Store names declared in a table map
+ */
+export type StoreName<TTables extends TableMap> = keyof TTables & string;
+
+/**
+ * Primary key type of a declared store
+ */
+export type StoreKey<
+  TTables extends TableMap,
+  TStores extends StoreDefinitions<TTables>,
+  K extends StoreName<TTables>,
+> = PrimaryKeyOf<TTables[K], TStores[K]['primaryKey']>;
+
+/**
+ * Map of store names to the primary key type of each store
+ */
+export type KeyMap<TTables extends TableMap = TableMap> = {
+  [K in StoreName<TTables>]: IDBValidKey;
+};
+
+/**
+ * Primary key types of the stores declared in a table map
+ */
+export type StoreKeys<TTables extends TableMap, TStores extends StoreDefinitions<TTables>> = {
+  [K in StoreName<TTables>]: StoreKey<TTables, TStores, K>;
+};
+
 /**
  * Database schema definition
  */
@@ -39,12 +126,70 @@ export interface DatabaseSchema {
 /**
  * Database configuration options
  */
-export interface DatabaseOptions extends DatabaseSchema {
+export interface DatabaseOptions<
+  TTables extends TableMap = TableMap,
+  TStores extends StoreDefinitions<TTables> = StoreDefinitions<TTables>,
+> extends Omit<DatabaseSchema, 'stores'> {
+  /** Object store definitions */
+  stores: TStores;
   /** Compatibility mode for browser quirks */
   compatMode?: 'auto' | 'safari' | 'strict';
   /** Enable debug logging */
   debug?: boolean;
-  /** Migration functions by version */
-  migrations?: Record<number, (transaction: IDBTransaction, db: IDBDatabase) => void | Promise<void>>;
+  /** Migrations by version: functions or `Migration` objects with a description, backup flag and rollback */
+  migrations?: Record<number, MigrationDefinition>;
+  /** Async data migrations by version, run after the upgrade commits and before `open()` resolves */
+  dataMigrations?: Record<number, DataMigration>;
+  /** Share change notifications with other tabs (default: true) */
+  crossTab?: boolean;
+  /** What to do when another tab upgrades or deletes the database (default: 'close') */
+  versionChangePolicy?: VersionChangePolicy;
+  /** Milliseconds an upgrade may stay blocked by other tabs before `open()` fails (default: 10000, 0 waits forever) */
+  upgradeBlockedTimeout?: number;
+  /** Milliseconds to wait for the open request before retrying (default: quirks.recommendedTimeout, 0 waits forever) */
+  openTimeout?: number;
+  /** Extra open attempts after a timeout (default: 2) */
+  openRetries?: number;
+  /** Base delay between open attempts in milliseconds, doubled on each retry (default: 100, 200 on Safari) */
+  openRetryDelay?: number;
+  /** Durability hint for write transactions (default: 'default') */
+  durability?: TransactionDurability;
+  /** Apply schema changes that drop or recreate stores and indexes during upgrades (default: false) */
+  allowDestructiveSchemaChanges?: boolean;
+  /** Derive the IndexedDB version from a fingerprint of `stores`; `version` stays the logical version `migrations` are keyed by (default: false) */
+  autoVersion?: boolean;
+}
+
+/**
+ * Kind of step in a schema diff
+ */
+export type SchemaChangeType =
+  | 'createStore'
+  | 'deleteStore'
+  | 'recreateStore'
+  | 'createIndex'
+  | 'deleteIndex'
+  | 'recreateIndex';
+
+/**
+ * Step that brings the live schema in line with the declared stores and indexes
+ */
+export interface SchemaChange {
+  /** Kind of change */
+  type: SchemaChangeType;
+  /** Store the change applies to */
+  store: string;
+  /** Index the change applies to (index changes only) */
+  index?: string;
+  /** Whether the change drops a store or index, which needs `allowDestructiveSchemaChanges` */
+  destructive: boolean;
+  /** Human-readable summary, e.g. `Recreate store "users": primaryKey "id" -> "uuid"` */
+  description: string;
 }
 
+/**
+ * How an open connection reacts to a version change requested elsewhere
+ * - `close`: close the connection so the other tab can proceed
+ * - `keep`: keep it open and leave closing to the `versionchange` listener
+ */
+export type VersionChangePolicy = 'close' | 'keep';
@@ -46,3 +46,30 @@ export interface QueryRange {
   upperOpen?: boolean;
 }
 
+
+/**
+ * Options for keyset pagination
+ */
+export interface QueryPageOptions {
+  /** Continuation token from the previous page (omit for the first page) */
+  after?: string | null;
+  /** Maximum number of records per page */
+  size: number;
+}
+
+/**
+ * One page of query results
+ */
+export interface QueryPage<T = unknown> {
+  /** Records on this page */
+  items: T[];
+  /** Token for the next page, or null when there are no more records */
+  next: string | null;
+}
+
+/**
+ * Record shape returned by `Query.select()`
+ */
+export type QueryProjection<T, K extends string> = unknown extends T
+  ? Record<K, unknown>
+  : Pick<T, Extract<K, keyof T>>;
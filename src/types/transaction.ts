@@ -1,16 +1,28 @@
+import type { Table } from '../table/table.js';
+import type { KVStore } from '../kv/kv-store.js';
+import type { TableMap, KeyMap, StoreName } from './schema.js';
+
 /**
  * Transaction mode
  */
 export type TransactionMode = 'readonly' | 'readwrite';
 
+/**
+ * Durability hint for readwrite transactions
+ * - `strict`: report completion only once the data is flushed to disk
+ * - `relaxed`: report completion once the data is written to the OS, faster for cache-style data
+ * - `default`: let the browser decide
+ */
+export type TransactionDurability = 'default' | 'strict' | 'relaxed';
+
 /**
  * Transaction options
  */
 export interface TransactionOptions {
   /** Transaction mode */
   mode?: TransactionMode;
-  /** Durability hint (if supported) */
-  durability?: 'default' | 'strict' | 'relaxed';
+  /** Durability hint (ignored where unsupported, default: the stores' or database's durability) */
+  durability?: TransactionDurability;
   /** Timeout in milliseconds */
   timeout?: number;
   /** Number of retries on failure */
@@ -22,7 +34,10 @@ export interface TransactionOptions {
 /**
  * Transaction context
  */
-export interface TransactionContext {
+export interface TransactionContext<
+  out TTables extends TableMap = TableMap,
+  out TKeys extends KeyMap<TTables> = KeyMap<TTables>,
+> {
   /** IDBTransaction instance */
   transaction: IDBTransaction;
   /** Transaction mode */
@@ -31,12 +46,28 @@ export interface TransactionContext {
   abort: () => void;
   /** Commit handler (for explicit commits if needed) */
   commit?: () => void;
+  /** Table handle whose operations all run in this transaction (the store must be in scope) */
+  table<K extends StoreName<TTables>>(storeName: K): Table<TTables[K], TKeys[K]>;
+  table<T = unknown, TKey extends IDBValidKey = IDBValidKey>(storeName: StoreName<TTables>): Table<T, TKey>;
+  /** KV handle whose operations all run in this transaction (`__kv__` must be in scope) */
+  kv: KVStore;
+  /**
+   * Run `callback` in this same transaction as a savepoint: if it throws, the writes
+   * made through its context's `table()`/`kv` handles are undone before the error
+   * reaches the caller, and the transaction carries on. Writes made directly on
+   * `transaction.objectStore()` are not recorded.
+   */
+  savepoint<R>(callback: TransactionCallback<R, TTables, TKeys>): Promise<R>;
 }
 
 /**
  * Transaction callback function
  */
-export type TransactionCallback<T = unknown> = (
-  context: TransactionContext
+export type TransactionCallback<
+  T = unknown,
+  TTables extends TableMap = TableMap,
+  TKeys extends KeyMap<TTables> = KeyMap<TTables>,
+> = (
+  context: TransactionContext<TTables, TKeys>
 ) => T | Promise<T>;
 
@@ -40,10 +40,6 @@ describe('Diagnostics Utilities', () => {
 
   describe('inspectStore', () => {
     it('should inspect a store', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: testDBName,
         version: 1,
@@ -71,10 +67,6 @@ describe('Diagnostics Utilities', () => {
     });
 
     it('should handle empty stores', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: testDBName,
         version: 1,
@@ -96,10 +88,6 @@ describe('Diagnostics Utilities', () => {
 
   describe('getDatabaseDiagnostics', () => {
     it('should get comprehensive diagnostics', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: testDBName,
         version: 1,
@@ -126,10 +114,6 @@ describe('Diagnostics Utilities', () => {
     });
 
     it('should include health check when requested', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: testDBName,
         version: 1,
@@ -151,10 +135,6 @@ describe('Diagnostics Utilities', () => {
 
   describe('formatDiagnostics', () => {
     it('should format diagnostics as string', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: testDBName,
         version: 1,
@@ -179,10 +159,6 @@ describe('Diagnostics Utilities', () => {
 
   describe('logDiagnostics', () => {
     it('should log diagnostics to console', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: testDBName,
         version: 1,
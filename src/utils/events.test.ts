@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from './events.js';
+
+interface TestEvents {
+  message: (text: string, count: number) => void;
+  reset: () => void;
+}
+
+describe('EventEmitter', () => {
+  it('should call listeners with the emitted arguments', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const listener = vi.fn();
+
+    emitter.on('message', listener);
+    emitter.emit('message', 'hello', 2);
+    emitter.emit('reset');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('hello', 2);
+  });
+
+  it('should remove listeners with off() or the returned function', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const remove = emitter.on('reset', first);
+    emitter.on('reset', second);
+    remove();
+    emitter.off('reset', second);
+    emitter.emit('reset');
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+    expect(emitter.listenerCount('reset')).toBe(0);
+  });
+
+  it('should keep calling listeners when one throws', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const listener = vi.fn();
+
+    emitter.on('reset', () => {
+      throw new Error('boom');
+    });
+    emitter.on('reset', listener);
+    emitter.emit('reset');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith('[NitroIDB] "reset" listener failed:', expect.any(Error));
+    warn.mockRestore();
+  });
+});
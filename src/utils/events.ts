@@ -0,0 +1,57 @@
+/**
+ * Minimal typed event emitter
+ * Listener errors are logged and never reach the code that emitted the event.
+ */
+export class EventEmitter<TEvents extends { [K in keyof TEvents]: (...args: never[]) => void }> {
+  private readonly listeners = new Map<keyof TEvents, Set<TEvents[keyof TEvents]>>();
+
+  /**
+   * Add a listener; returns a function that removes it
+   */
+  on<K extends keyof TEvents>(event: K, listener: TEvents[K]): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener
+   */
+  off<K extends keyof TEvents>(event: K, listener: TEvents[K]): void {
+    const listeners = this.listeners.get(event);
+    if (listeners) {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(event);
+      }
+    }
+  }
+
+  /**
+   * Call every listener of an event
+   */
+  emit<K extends keyof TEvents>(event: K, ...args: Parameters<TEvents[K]>): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of Array.from(listeners)) {
+      try {
+        (listener as (...args: Parameters<TEvents[K]>) => void)(...args);
+      } catch (error) {
+        console.warn(`[NitroIDB] "${String(event)}" listener failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Number of listeners registered for an event
+   */
+  listenerCount<K extends keyof TEvents>(event: K): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+}
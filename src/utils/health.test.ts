@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   getStorageQuota,
   calculateEvictionRisk,
@@ -195,6 +195,18 @@ describe('Health Check Utilities', () => {
       );
       expect(issues).toContain('Critical eviction risk: Storage quota nearly exhausted');
     });
+
+    it('should collect blocked upgrades', () => {
+      const issues = collectIssues(
+        false,
+        { canOpen: false, canRead: false, canWrite: false, canClose: false },
+        { isEphemeral: false },
+        'low',
+        browserInfo,
+        true
+      );
+      expect(issues).toContain('Database upgrade is blocked by connections in other tabs');
+    });
   });
 
   describe('generateRecommendations', () => {
@@ -274,7 +286,30 @@ describe('Health Check Utilities', () => {
 
       const recommendations = generateRecommendations(partialResult);
       expect(recommendations.some(r => r.includes('CRITICAL'))).toBe(true);
-      expect(recommendations.some(r => r.includes('delete'))).toBe(true);
+      expect(recommendations.some(r => r.toLowerCase().includes('delete'))).toBe(true);
+    });
+
+    it('should recommend watching stored data when the quota is unavailable', () => {
+      const partialResult = {
+        status: 'healthy' as const,
+        timestamp: Date.now(),
+        connected: true,
+        storage: {
+          isEphemeral: false,
+        },
+        evictionRisk: 'low' as const,
+        issues: [],
+        browserInfo,
+        tests: {
+          canOpen: true,
+          canRead: true,
+          canWrite: true,
+          canClose: true,
+        },
+      };
+
+      const recommendations = generateRecommendations(partialResult);
+      expect(recommendations.some(r => r.includes('quota is unavailable'))).toBe(true);
     });
   });
 
@@ -310,10 +345,6 @@ describe('Health Check Utilities', () => {
     });
 
     it('should run connectivity tests successfully', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: testDBName,
         version: 1,
@@ -334,10 +365,6 @@ describe('Health Check Utilities', () => {
     });
 
     it('should handle test failures gracefully', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: testDBName,
         version: 1,
@@ -346,14 +373,42 @@ describe('Health Check Utilities', () => {
         },
       });
 
-      // Don't open the database
+      // Don't open the database, and make opening it fail
+      vi.spyOn(indexedDB, 'open').mockImplementation(() => {
+        throw new Error('IndexedDB is blocked');
+      });
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
       const tests = await runConnectivityTests(db);
+      vi.restoreAllMocks();
 
       expect(tests.canOpen).toBe(false);
       expect(tests.canRead).toBe(false);
       expect(tests.canWrite).toBe(false);
       expect(tests.canClose).toBe(false);
     });
+
+    it('should report hung open requests instead of waiting forever', async () => {
+      const db = createDB({
+        name: testDBName,
+        version: 1,
+        stores: {
+          test: { primaryKey: 'id' },
+        },
+        openTimeout: 20,
+        openRetries: 0,
+      });
+      const open = vi.spyOn(indexedDB, 'open').mockReturnValue({} as IDBOpenDBRequest);
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const tests = await runConnectivityTests(db);
+      open.mockRestore();
+      warn.mockRestore();
+
+      expect(tests.canOpen).toBe(false);
+      expect(tests.openError).toBe('OPEN_TIMEOUT');
+      expect(collectIssues(false, tests, { isEphemeral: false }, 'low', detectBrowser())).toContain(
+        'Opening the database timed out'
+      );
+    });
   });
 });
-
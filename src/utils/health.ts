@@ -2,6 +2,7 @@ import type { Database } from '../database/database.js';
 import type { HealthCheckResult, HealthStatus, StorageQuota, EvictionRisk } from '../types/health.js';
 import { checkEphemeralStorage } from './quirks.js';
 import { detectBrowser } from './browser.js';
+import { NitroIDBError } from '../errors/base.js';
 
 /**
  * Get storage quota information
@@ -107,6 +108,14 @@ export function generateRecommendations(
 ): string[] {
   const recommendations: string[] = [];
 
+  if (result.tests.openError === 'OPEN_TIMEOUT') {
+    recommendations.push('Opening the database timed out. Reopen it or reload the page (a known iOS Safari issue).');
+  }
+
+  if (result.upgradeBlocked) {
+    recommendations.push('Database upgrade is blocked. Close or reload other tabs using this database.');
+  }
+
   // Connection issues
   if (!result.connected) {
     recommendations.push('Database connection failed. Check if IndexedDB is available and not blocked.');
@@ -163,6 +172,10 @@ export function generateRecommendations(
   }
 
   // Quota information
+  if (result.storage.quota === undefined) {
+    recommendations.push('Storage quota is unavailable in this browser. Keep an eye on the amount of stored data.');
+  }
+
   if (result.storage.usagePercent !== undefined) {
     recommendations.push(`Storage usage: ${result.storage.usagePercent.toFixed(1)}% (${formatBytes(result.storage.usage ?? 0)} / ${formatBytes(result.storage.quota ?? 0)})`);
   }
@@ -219,7 +232,7 @@ export async function runConnectivityTests(
   db: Database,
   testDataSize: number = 1024
 ): Promise<HealthCheckResult['tests']> {
-  const tests = {
+  const tests: HealthCheckResult['tests'] = {
     canOpen: false,
     canRead: false,
     canWrite: false,
@@ -276,6 +289,9 @@ export async function runConnectivityTests(
     }
   } catch (error) {
     // Any error means tests failed
+    if (!tests.canOpen) {
+      tests.openError = error instanceof NitroIDBError ? error.code : 'UNKNOWN';
+    }
     console.warn('Health check connectivity tests failed:', error);
   }
 
@@ -290,7 +306,8 @@ export function collectIssues(
   tests: HealthCheckResult['tests'],
   storage: StorageQuota,
   evictionRisk: EvictionRisk,
-  browserInfo: ReturnType<typeof detectBrowser>
+  browserInfo: ReturnType<typeof detectBrowser>,
+  upgradeBlocked: boolean = false
 ): string[] {
   const issues: string[] = [];
 
@@ -298,10 +315,18 @@ export function collectIssues(
     issues.push('Database is not connected');
   }
 
+  if (upgradeBlocked) {
+    issues.push('Database upgrade is blocked by connections in other tabs');
+  }
+
   if (!tests.canOpen) {
     issues.push('Cannot open database');
   }
 
+  if (tests.openError === 'OPEN_TIMEOUT') {
+    issues.push('Opening the database timed out');
+  }
+
   if (!tests.canRead) {
     issues.push('Cannot read from database');
   }
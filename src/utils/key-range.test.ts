@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getValueByKeyPath,
+  normalizeKeys,
+  rangesForKeys,
+  complementRanges,
+  coverRanges,
+  rangesInclude,
+  rangesFrom,
+  serializeKey,
+  deserializeKey,
+  findKeyIndex,
+} from './key-range.js';
+
+describe('getValueByKeyPath', () => {
+  it('should read simple and dotted key paths', () => {
+    const record = { id: 1, profile: { name: 'John' } };
+
+    expect(getValueByKeyPath(record, 'id')).toBe(1);
+    expect(getValueByKeyPath(record, 'profile.name')).toBe('John');
+    expect(getValueByKeyPath(record, 'profile.missing')).toBeUndefined();
+  });
+
+  it('should read array key paths', () => {
+    const record = { a: 1, b: 'x' };
+
+    expect(getValueByKeyPath(record, ['a', 'b'])).toEqual([1, 'x']);
+    expect(getValueByKeyPath(record, ['a', 'c'])).toBeUndefined();
+  });
+});
+
+describe('key range helpers', () => {
+  it('should sort and de-duplicate keys', () => {
+    expect(normalizeKeys(['b', 'a', 'b', 2, null, 1])).toEqual([1, 2, 'a', 'b']);
+  });
+
+  it('should build exact ranges for a key list', () => {
+    const ranges = rangesForKeys(['z', 'a']);
+    expect(ranges).toHaveLength(2);
+    expect(rangesInclude(ranges, 'a')).toBe(true);
+    expect(rangesInclude(ranges, 'm')).toBe(false);
+    expect(rangesInclude(ranges, 'z')).toBe(true);
+  });
+
+  it('should build complement ranges for a key list', () => {
+    const ranges = complementRanges(['b', 'd']);
+    expect(ranges).toHaveLength(3);
+    expect(rangesInclude(ranges, 'a')).toBe(true);
+    expect(rangesInclude(ranges, 'b')).toBe(false);
+    expect(rangesInclude(ranges, 'c')).toBe(true);
+    expect(rangesInclude(ranges, 'd')).toBe(false);
+    expect(rangesInclude(ranges, 'e')).toBe(true);
+
+    expect(complementRanges([])).toBeNull();
+  });
+
+  it('should cover a range list with a single range', () => {
+    const cover = coverRanges(rangesForKeys([3, 1, 2]));
+    expect(cover?.lower).toBe(1);
+    expect(cover?.upper).toBe(3);
+
+    expect(coverRanges(complementRanges([5]) ?? [])).toBeNull();
+    expect(coverRanges([])).toBeNull();
+  });
+
+  it('should find keys in a sorted key list', () => {
+    const keys = normalizeKeys(['c', 1, 'a']);
+    expect(findKeyIndex(keys, 'a')).toBe(1);
+    expect(findKeyIndex(keys, 1)).toBe(0);
+    expect(findKeyIndex(keys, 'b')).toBe(-1);
+    expect(findKeyIndex(keys, { not: 'a key' })).toBe(-1);
+  });
+
+  it('should trim a range list to the keys after a cursor position', () => {
+    const ranges = rangesForKeys([1, 3, 5]);
+
+    const inclusive = rangesFrom(ranges, 3, false, false);
+    expect(inclusive).toHaveLength(2);
+    expect(rangesInclude(inclusive, 3)).toBe(true);
+    expect(rangesInclude(inclusive, 1)).toBe(false);
+
+    const exclusive = rangesFrom(ranges, 3, false, true);
+    expect(exclusive).toHaveLength(1);
+    expect(rangesInclude(exclusive, 5)).toBe(true);
+
+    const descending = rangesFrom(ranges, 3, true, true);
+    expect(descending).toHaveLength(1);
+    expect(rangesInclude(descending, 1)).toBe(true);
+
+    const everything = rangesFrom(null, 'm', false, true);
+    expect(rangesInclude(everything, 'm')).toBe(false);
+    expect(rangesInclude(everything, 'n')).toBe(true);
+  });
+});
+
+describe('key serialization', () => {
+  it('should round-trip every key type through JSON', () => {
+    const date = new Date(1700000000000);
+    const key = ['a', 1, -Infinity, date, [2, 'b']];
+
+    const restored = deserializeKey(JSON.parse(JSON.stringify(serializeKey(key))));
+    expect(restored).toEqual(key);
+  });
+
+  it('should round-trip binary keys', () => {
+    const restored = deserializeKey(serializeKey(new Uint8Array([0, 127, 255])));
+
+    expect(restored).toBeInstanceOf(ArrayBuffer);
+    expect(Array.from(new Uint8Array(restored as ArrayBuffer))).toEqual([0, 127, 255]);
+  });
+
+  it('should reject values that are not serialized keys', () => {
+    expect(() => deserializeKey(null)).toThrow('Invalid serialized key');
+    expect(() => deserializeKey({ x: 1 })).toThrow('Invalid serialized key');
+  });
+});
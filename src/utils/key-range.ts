@@ -0,0 +1,338 @@
+/**
+ * Read a (possibly dotted) key path from a record
+ */
+export function getValueByKeyPath(record: unknown, keyPath: string | string[]): unknown {
+  if (Array.isArray(keyPath)) {
+    const values = keyPath.map((path) => getValueByKeyPath(record, path));
+    return values.some((value) => value === undefined) ? undefined : values;
+  }
+
+  if (keyPath === '') {
+    return record;
+  }
+
+  let current: unknown = record;
+  for (const part of keyPath.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+/**
+ * Check whether a value is a valid IndexedDB key
+ */
+export function isValidKey(value: unknown): value is IDBValidKey {
+  try {
+    indexedDB.cmp(value, value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a value falls inside a key range
+ */
+export function rangeIncludes(range: IDBKeyRange, value: unknown): boolean {
+  try {
+    return range.includes(value);
+  } catch {
+    // Not a valid key (undefined, object, ...)
+    return false;
+  }
+}
+
+/**
+ * Check whether a value falls inside any of the given ranges (null matches any valid key)
+ */
+export function rangesInclude(ranges: IDBKeyRange[] | null, value: unknown): boolean {
+  if (ranges === null) {
+    return isValidKey(value);
+  }
+  return ranges.some((range) => rangeIncludes(range, value));
+}
+
+/**
+ * Whether a key range matches exactly one key
+ */
+export function isEqualityRange(range: IDBKeyRange): boolean {
+  return (
+    !range.lowerOpen &&
+    !range.upperOpen &&
+    range.lower !== undefined &&
+    range.upper !== undefined &&
+    indexedDB.cmp(range.lower, range.upper) === 0
+  );
+}
+
+/**
+ * Sort keys in IndexedDB order and drop duplicates and invalid keys
+ */
+export function normalizeKeys(values: unknown[]): IDBValidKey[] {
+  const keys = values.filter(isValidKey).sort((a, b) => indexedDB.cmp(a, b));
+  return keys.filter((key, i) => i === 0 || indexedDB.cmp(keys[i - 1], key) !== 0);
+}
+
+/**
+ * One closed range per key, in key order
+ */
+export function rangesForKeys(values: unknown[]): IDBKeyRange[] {
+  return normalizeKeys(values).map((key) => IDBKeyRange.only(key));
+}
+
+/**
+ * Open ranges covering everything except the given keys, in key order
+ * (null means every key matches)
+ */
+export function complementRanges(values: unknown[]): IDBKeyRange[] | null {
+  const keys = normalizeKeys(values);
+  const first = keys[0];
+  const last = keys[keys.length - 1];
+
+  if (first === undefined || last === undefined) {
+    return null;
+  }
+
+  const ranges: IDBKeyRange[] = [IDBKeyRange.upperBound(first, true)];
+  for (let i = 1; i < keys.length; i++) {
+    ranges.push(IDBKeyRange.bound(keys[i - 1] as IDBValidKey, keys[i] as IDBValidKey, true, true));
+  }
+  ranges.push(IDBKeyRange.lowerBound(last, true));
+  return ranges;
+}
+
+/**
+ * Smallest single range containing every range in a sorted, disjoint list
+ */
+export function coverRanges(ranges: IDBKeyRange[]): IDBKeyRange | null {
+  const first = ranges[0];
+  const last = ranges[ranges.length - 1];
+  if (!first || !last) {
+    return null;
+  }
+  if (ranges.length === 1) {
+    return first;
+  }
+
+  const lower: unknown = first.lower;
+  const upper: unknown = last.upper;
+
+  if (lower === undefined && upper === undefined) {
+    return null;
+  }
+  if (lower === undefined) {
+    return IDBKeyRange.upperBound(upper, last.upperOpen);
+  }
+  if (upper === undefined) {
+    return IDBKeyRange.lowerBound(lower, first.lowerOpen);
+  }
+  return IDBKeyRange.bound(lower, upper, first.lowerOpen, last.upperOpen);
+}
+
+/**
+ * Outcome of positioning a cursor against a range list
+ */
+export type RangeSeekResult = 'match' | 'moved' | 'done';
+
+/**
+ * Check a cursor against a sorted, disjoint range list and skip the gaps between
+ * ranges with `cursor.continue(key)` instead of stepping through every record.
+ * `state.index` tracks the current range and must start at 0 (or at the last
+ * range for descending cursors).
+ */
+export function seekRanges(
+  cursor: IDBCursor,
+  ranges: IDBKeyRange[],
+  state: { index: number },
+  descending: boolean
+): RangeSeekResult {
+  const key = cursor.key;
+
+  if (descending) {
+    // Drop ranges lying entirely above the cursor key
+    let range = ranges[state.index];
+    while (range && range.lower !== undefined) {
+      const order = indexedDB.cmp(key, range.lower);
+      if (order > 0 || (order === 0 && !range.lowerOpen)) {
+        break;
+      }
+      state.index--;
+      range = ranges[state.index];
+    }
+
+    if (!range) {
+      return 'done';
+    }
+    if (rangeIncludes(range, key)) {
+      return 'match';
+    }
+    if (range.upper !== undefined && indexedDB.cmp(key, range.upper) > 0) {
+      cursor.continue(range.upper as IDBValidKey);
+    } else {
+      cursor.continue();
+    }
+    return 'moved';
+  }
+
+  // Drop ranges lying entirely below the cursor key
+  let range = ranges[state.index];
+  while (range && range.upper !== undefined) {
+    const order = indexedDB.cmp(key, range.upper);
+    if (order < 0 || (order === 0 && !range.upperOpen)) {
+      break;
+    }
+    state.index++;
+    range = ranges[state.index];
+  }
+
+  if (!range) {
+    return 'done';
+  }
+  if (rangeIncludes(range, key)) {
+    return 'match';
+  }
+  if (range.lower !== undefined && indexedDB.cmp(key, range.lower) < 0) {
+    cursor.continue(range.lower as IDBValidKey);
+  } else {
+    cursor.continue();
+  }
+  return 'moved';
+}
+
+/**
+ * Trim a sorted, disjoint range list to the keys at or after `key` in cursor order
+ * (strictly after when `exclusive`); null ranges mean every key
+ */
+export function rangesFrom(
+  ranges: IDBKeyRange[] | null,
+  key: IDBValidKey,
+  descending: boolean,
+  exclusive: boolean
+): IDBKeyRange[] {
+  const trimmed: IDBKeyRange[] = [];
+
+  for (const range of ranges ?? [null]) {
+    let lower: unknown = range?.lower;
+    let upper: unknown = range?.upper;
+    let lowerOpen = range?.lowerOpen ?? false;
+    let upperOpen = range?.upperOpen ?? false;
+
+    if (descending) {
+      if (lower !== undefined) {
+        const order = indexedDB.cmp(lower, key);
+        if (order > 0 || (order === 0 && (lowerOpen || exclusive))) {
+          continue;
+        }
+      }
+      const order = upper === undefined ? 1 : indexedDB.cmp(upper, key);
+      if (order > 0) {
+        upper = key;
+        upperOpen = exclusive;
+      } else if (order === 0) {
+        upperOpen = upperOpen || exclusive;
+      }
+    } else {
+      if (upper !== undefined) {
+        const order = indexedDB.cmp(upper, key);
+        if (order < 0 || (order === 0 && (upperOpen || exclusive))) {
+          continue;
+        }
+      }
+      const order = lower === undefined ? -1 : indexedDB.cmp(lower, key);
+      if (order < 0) {
+        lower = key;
+        lowerOpen = exclusive;
+      } else if (order === 0) {
+        lowerOpen = lowerOpen || exclusive;
+      }
+    }
+
+    if (lower === undefined) {
+      trimmed.push(IDBKeyRange.upperBound(upper, upperOpen));
+    } else if (upper === undefined) {
+      trimmed.push(IDBKeyRange.lowerBound(lower, lowerOpen));
+    } else {
+      trimmed.push(IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen));
+    }
+  }
+
+  return trimmed;
+}
+
+/**
+ * Convert a key into a JSON-safe value (dates, binary keys and infinities are tagged)
+ */
+export function serializeKey(key: IDBValidKey): unknown {
+  if (typeof key === 'string') {
+    return key;
+  }
+  if (typeof key === 'number') {
+    return Number.isFinite(key) ? key : { n: key > 0 ? 'Infinity' : '-Infinity' };
+  }
+  if (key instanceof Date) {
+    return { d: key.getTime() };
+  }
+  if (Array.isArray(key)) {
+    return { a: key.map(serializeKey) };
+  }
+
+  const bytes = ArrayBuffer.isView(key)
+    ? new Uint8Array(key.buffer, key.byteOffset, key.byteLength)
+    : new Uint8Array(key);
+  return { b: btoa(String.fromCharCode(...bytes)) };
+}
+
+/**
+ * Rebuild a key produced by `serializeKey()`
+ */
+export function deserializeKey(value: unknown): IDBValidKey {
+  if (typeof value === 'string' || typeof value === 'number') {
+    return value;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const tagged = value as { n?: unknown; d?: unknown; a?: unknown; b?: unknown };
+    if (tagged.n === 'Infinity' || tagged.n === '-Infinity') {
+      return tagged.n === 'Infinity' ? Infinity : -Infinity;
+    }
+    if (typeof tagged.d === 'number') {
+      return new Date(tagged.d);
+    }
+    if (Array.isArray(tagged.a)) {
+      return tagged.a.map(deserializeKey);
+    }
+    if (typeof tagged.b === 'string') {
+      return Uint8Array.from(atob(tagged.b), (char) => char.charCodeAt(0)).buffer;
+    }
+  }
+
+  throw new Error('Invalid serialized key');
+}
+
+/**
+ * Position of a key in a list sorted by `normalizeKeys()`, or -1 when it is missing
+ */
+export function findKeyIndex(sortedKeys: IDBValidKey[], key: unknown): number {
+  if (!isValidKey(key)) {
+    return -1;
+  }
+
+  let low = 0;
+  let high = sortedKeys.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    const order = indexedDB.cmp(sortedKeys[mid], key);
+    if (order === 0) {
+      return mid;
+    }
+    if (order < 0) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return -1;
+}
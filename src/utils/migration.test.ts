@@ -7,6 +7,8 @@ import {
   validateMigrations,
   getNextMigrationVersion,
   needsMigration,
+  normalizeMigrations,
+  runMigrations,
 } from './migration.js';
 import { createDB } from '../database/index.js';
 
@@ -43,10 +45,6 @@ describe('Migration Utilities', () => {
 
   describe('getMigrationHistory', () => {
     it('should return empty array when no history exists', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: testDBName,
         version: 1,
@@ -67,10 +65,6 @@ describe('Migration Utilities', () => {
 
   describe('saveMigrationHistory', () => {
     it('should save migration history entry', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: testDBName,
         version: 1,
@@ -93,18 +87,14 @@ describe('Migration Utilities', () => {
 
       const history = await getMigrationHistory(db);
       expect(history.length).toBe(1);
-      expect(history[0].fromVersion).toBe(1);
-      expect(history[0].toVersion).toBe(2);
-      expect(history[0].success).toBe(true);
+      expect(history[0]?.fromVersion).toBe(1);
+      expect(history[0]?.toVersion).toBe(2);
+      expect(history[0]?.success).toBe(true);
 
       db.close();
     });
 
     it('should keep only last 100 entries', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: testDBName,
         version: 1,
@@ -134,10 +124,6 @@ describe('Migration Utilities', () => {
 
   describe('createBackup', () => {
     it('should create backup of database stores', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: testDBName,
         version: 1,
@@ -161,19 +147,15 @@ describe('Migration Utilities', () => {
 
       expect(backup).toHaveProperty('users');
       expect(backup).toHaveProperty('posts');
-      expect(backup.users.length).toBe(2);
-      expect(backup.posts.length).toBe(1);
-      expect(backup.users[0]).toHaveProperty('id');
-      expect(backup.users[0]).toHaveProperty('name');
+      expect(backup.users?.length).toBe(2);
+      expect(backup.posts?.length).toBe(1);
+      expect(backup.users?.[0]).toHaveProperty('id');
+      expect(backup.users?.[0]).toHaveProperty('name');
 
       db.close();
     });
 
     it('should skip internal stores', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: testDBName,
         version: 1,
@@ -195,10 +177,6 @@ describe('Migration Utilities', () => {
 
   describe('restoreBackup', () => {
     it('should restore database from backup', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: testDBName,
         version: 1,
@@ -324,5 +302,47 @@ describe('Migration Utilities', () => {
       expect(needs).toBe(false);
     });
   });
-});
 
+  describe('normalizeMigrations', () => {
+    it('should accept functions and Migration objects', () => {
+      const migrate = (): void => {};
+      const rollback = (): void => {};
+      const migrations = normalizeMigrations({
+        2: migrate,
+        3: { version: 3, migrate, description: 'Add roles', requiresBackup: true, rollback },
+      });
+
+      expect(migrations[2]).toEqual({ version: 2, migrate });
+      expect(migrations[3]).toEqual({ version: 3, migrate, description: 'Add roles', requiresBackup: true, rollback });
+    });
+
+    it('should reject objects registered under another version', () => {
+      expect(() => normalizeMigrations({ 2: { version: 3, migrate: () => {} } })).toThrow(
+        'Migration registered for version 2 declares version 3'
+      );
+    });
+  });
+
+  describe('runMigrations', () => {
+    it('should record migration descriptions in history', async () => {
+      const db = createDB({
+        name: testDBName,
+        version: 1,
+        stores: {
+          users: { primaryKey: 'id' },
+        },
+      });
+
+      await db.open();
+      await runMigrations(db, { 2: { version: 2, migrate: () => {}, description: 'Add roles' } }, 1, 2, {
+        browserInfo: db.browserInfo,
+        logHistory: true,
+      });
+
+      const history = await getMigrationHistory(db);
+      expect(history).toEqual([expect.objectContaining({ fromVersion: 1, toVersion: 2, success: true, description: 'Add roles' })]);
+
+      db.close();
+    });
+  });
+});
@@ -1,8 +1,9 @@
 import type {
+  DataMigration,
   Migration,
+  MigrationDefinition,
   MigrationResult,
   MigrationHistoryEntry,
-  MigrationOptions,
   MigrationRunnerOptions,
 } from '../types/migration.js';
 import { MigrationError } from '../errors/migration.js';
@@ -13,6 +14,44 @@ import type { Database } from '../database/database.js';
  */
 const MIGRATION_HISTORY_STORE = '__migration_history__';
 
+/**
+ * KV key holding the migration history
+ */
+export const MIGRATION_HISTORY_KEY = '__migration_history__';
+
+/**
+ * Number of history entries kept
+ */
+const MAX_HISTORY_ENTRIES = 100;
+
+/**
+ * KV key holding the progress of data migrations
+ */
+export const DATA_MIGRATION_KEY = '__data_migration__';
+
+/**
+ * Stored progress of data migrations
+ */
+interface DataMigrationState {
+  /** Last version whose data migration finished (or that had none) */
+  version: number;
+  /** Progress saved by the data migration for the next version */
+  checkpoint?: unknown;
+}
+
+/**
+ * KV key holding the upgrade whose migrations failed after it committed
+ */
+export const FAILED_MIGRATION_KEY = '__failed_migration__';
+
+/**
+ * Logical versions of an upgrade whose migrations run again on the next `open()`
+ */
+export interface FailedMigration {
+  fromVersion: number;
+  toVersion: number;
+}
+
 /**
  * Get migration history from database
  */
@@ -22,7 +61,7 @@ export async function getMigrationHistory(db: Database): Promise<MigrationHistor
   }
 
   try {
-    const history = await db.kv.get<MigrationHistoryEntry[]>('__migration_history__');
+    const history = await db.kv.get<MigrationHistoryEntry[]>(MIGRATION_HISTORY_KEY);
     return history ?? [];
   } catch {
     return [];
@@ -44,16 +83,81 @@ export async function saveMigrationHistory(
   history.push(entry);
 
   // Keep only last 100 entries
-  const trimmedHistory = history.slice(-100);
+  const trimmedHistory = history.slice(-MAX_HISTORY_ENTRIES);
+
+  await db.kv.set(MIGRATION_HISTORY_KEY, trimmedHistory);
+}
 
-  await db.kv.set('__migration_history__', trimmedHistory);
+/**
+ * Get the upgrade whose migrations failed after it committed, if any
+ */
+export async function getFailedMigration(db: Database): Promise<FailedMigration | null> {
+  return (await db.kv.get<FailedMigration>(FAILED_MIGRATION_KEY)) ?? null;
+}
+
+/**
+ * Store the upgrade whose migrations the next `open()` runs again, or clear it with null
+ */
+export async function saveFailedMigration(db: Database, failed: FailedMigration | null): Promise<void> {
+  if (failed) {
+    await db.kv.set(FAILED_MIGRATION_KEY, failed);
+  } else {
+    await db.kv.delete(FAILED_MIGRATION_KEY);
+  }
+}
+
+/**
+ * Append history entries through a transaction that includes the KV store, such as
+ * the upgrade transaction, so they commit together with the migrations
+ */
+export function appendMigrationHistory(transaction: IDBTransaction, entries: MigrationHistoryEntry[]): void {
+  if (entries.length === 0) {
+    return;
+  }
+
+  // Copied now: the caller may keep adding entries before the read completes
+  const appended = [...entries];
+  const store = transaction.objectStore('__kv__');
+  const request = store.get(MIGRATION_HISTORY_KEY);
+
+  request.onsuccess = (): void => {
+    const item = request.result as { key: string; value: MigrationHistoryEntry[] } | undefined;
+    const history = [...(item?.value ?? []), ...appended].slice(-MAX_HISTORY_ENTRIES);
+    store.put({ key: MIGRATION_HISTORY_KEY, value: history });
+  };
+}
+
+/**
+ * Turn migration definitions into `Migration` objects keyed by version
+ * Throws when an object is registered under another version than its own.
+ */
+export function normalizeMigrations(migrations: Record<number, MigrationDefinition>): Record<number, Migration> {
+  const normalized: Record<number, Migration> = {};
+  for (const [key, definition] of Object.entries(migrations)) {
+    const version = Number(key);
+    if (typeof definition === 'function') {
+      normalized[version] = { version, migrate: definition };
+      continue;
+    }
+    if (definition.version !== version) {
+      throw new Error(`Migration registered for version ${version} declares version ${definition.version}`);
+    }
+    normalized[version] = definition;
+  }
+  return normalized;
 }
 
 /**
  * Create backup of database data
  * Note: This is a simple backup that exports data. For production, consider more robust backup solutions.
+ * With `connection`, the stores of that connection are read directly (used to snapshot
+ * the previous version before an upgrade).
  */
-export async function createBackup(db: Database): Promise<Record<string, unknown[]>> {
+export async function createBackup(db: Database, connection?: IDBDatabase): Promise<Record<string, unknown[]>> {
+  if (connection) {
+    return readAllStores(connection);
+  }
+
   if (!db.isOpen()) {
     await db.open();
   }
@@ -79,6 +183,31 @@ export async function createBackup(db: Database): Promise<Record<string, unknown
   return backup;
 }
 
+/**
+ * Read every store of a connection except the internal ones, in one transaction
+ */
+function readAllStores(connection: IDBDatabase): Promise<Record<string, unknown[]>> {
+  const backup: Record<string, unknown[]> = {};
+  const storeNames = Array.from(connection.objectStoreNames).filter(
+    (name) => name !== '__kv__' && name !== MIGRATION_HISTORY_STORE
+  );
+  if (storeNames.length === 0) {
+    return Promise.resolve(backup);
+  }
+
+  return new Promise((resolve, reject) => {
+    const transaction = connection.transaction(storeNames, 'readonly');
+    for (const storeName of storeNames) {
+      const request = transaction.objectStore(storeName).getAll();
+      request.onsuccess = (): void => {
+        backup[storeName] = request.result;
+      };
+    }
+    transaction.oncomplete = (): void => resolve(backup);
+    transaction.onabort = (): void => reject(transaction.error ?? new Error('Failed to read stores for backup'));
+  });
+}
+
 /**
  * Restore database from backup
  */
@@ -106,50 +235,67 @@ export async function restoreBackup(
 }
 
 /**
- * Run a single migration
+ * Record where data migrations start, inside the upgrade transaction
+ * A new database has no data to migrate; progress left by an interrupted run is kept.
  */
-async function runMigration(
-  migration: Migration,
-  transaction: IDBTransaction,
-  db: IDBDatabase,
+export function markDataMigrations(transaction: IDBTransaction, oldVersion: number, newVersion: number): void {
+  const store = transaction.objectStore('__kv__');
+  const request = store.get(DATA_MIGRATION_KEY);
+
+  request.onsuccess = (): void => {
+    if (request.result === undefined) {
+      const state: DataMigrationState = { version: oldVersion === 0 ? newVersion : oldVersion };
+      store.put({ key: DATA_MIGRATION_KEY, value: state });
+    }
+  };
+}
+
+/**
+ * Run the data migrations still pending up to `targetVersion`, in order
+ * Progress is stored in the KV store after each one, so an interrupted run resumes
+ * with the migration that did not finish (and its last checkpoint).
+ */
+export async function runDataMigrations(
+  db: Database,
+  migrations: Record<number, DataMigration>,
+  targetVersion: number,
   options: MigrationRunnerOptions
 ): Promise<void> {
-  const startTime = Date.now();
-
-  if (options.debug) {
-    console.log(`[NitroIDB] Running migration to version ${migration.version}${migration.description ? `: ${migration.description}` : ''}`);
+  const state = await db.kv.get<DataMigrationState>(DATA_MIGRATION_KEY);
+  if (!state) {
+    // Upgraded before data migrations were configured: nothing is pending
+    return;
   }
 
-  try {
-    const result = migration.migrate(transaction, db);
-
-    // Handle async migrations
-    if (result instanceof Promise) {
-      await result;
-    }
-
-    const duration = Date.now() - startTime;
-
-    if (options.debug) {
-      console.log(`[NitroIDB] Migration to version ${migration.version} completed in ${duration}ms`);
-    }
-  } catch (error) {
-    const duration = Date.now() - startTime;
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  let checkpoint = state.checkpoint;
+  for (let version = state.version + 1; version <= targetVersion; version++) {
+    const migrate = migrations[version];
+    if (migrate) {
+      db.logDebug(`Running data migration from ${version - 1} to ${version}${checkpoint !== undefined ? ' (resuming)' : ''}`);
 
-    if (options.debug) {
-      console.error(`[NitroIDB] Migration to version ${migration.version} failed after ${duration}ms:`, error);
+      try {
+        await migrate({
+          db,
+          fromVersion: version - 1,
+          toVersion: version,
+          checkpoint,
+          saveCheckpoint: (value) => db.kv.set<DataMigrationState>(DATA_MIGRATION_KEY, { version: version - 1, checkpoint: value }),
+        });
+      } catch (error) {
+        throw new MigrationError(
+          version - 1,
+          version,
+          error instanceof Error ? error.message : 'Unknown migration error',
+          {
+            browserInfo: options.browserInfo,
+            migrationStep: `Data migration ${version}`,
+          }
+        );
+      }
     }
 
-    throw new MigrationError(
-      migration.version - 1,
-      migration.version,
-      errorMessage,
-      {
-        browserInfo: options.browserInfo,
-        migrationStep: migration.description ?? `Migration ${migration.version}`,
-      }
-    );
+    checkpoint = undefined;
+    await db.kv.set<DataMigrationState>(DATA_MIGRATION_KEY, { version });
   }
 }
 
@@ -158,7 +304,7 @@ async function runMigration(
  */
 export async function runMigrations(
   db: Database,
-  migrations: Record<number, Migration['migrate']>,
+  migrations: Record<number, MigrationDefinition>,
   fromVersion: number,
   toVersion: number,
   options: MigrationRunnerOptions
@@ -170,14 +316,12 @@ export async function runMigrations(
   }
 
   // Convert migrations to Migration objects
+  const normalized = normalizeMigrations(migrations);
   const migrationList: Migration[] = [];
   for (let version = fromVersion + 1; version <= toVersion; version++) {
-    const migrate = migrations[version];
-    if (migrate) {
-      migrationList.push({
-        version,
-        migrate,
-      });
+    const migration = normalized[version];
+    if (migration) {
+      migrationList.push(migration);
     }
   }
 
@@ -214,9 +358,9 @@ export async function runMigrations(
     return results;
   }
 
-  // Create backup if requested
+  // Create backup if requested or required by a migration
   let backup: Record<string, unknown[]> | null = null;
-  if (options.backup) {
+  if (options.backup || migrationList.some((migration) => migration.requiresBackup)) {
     try {
       backup = await createBackup(db);
       if (options.debug) {
@@ -238,9 +382,6 @@ export async function runMigrations(
     // This function is called from within that context
     // For async migrations, we need to handle them after the upgrade completes
 
-    // Get the database instance
-    const idb = await db.getDB();
-
     // Run each migration
     for (const migration of migrationList) {
       const startTime = Date.now();
@@ -299,6 +440,17 @@ export async function runMigrations(
           timestamp: Date.now(),
         });
 
+        if (options.logHistory) {
+          await saveMigrationHistory(db, {
+            fromVersion: fromVer,
+            toVersion: toVer,
+            timestamp: Date.now(),
+            success: false,
+            error: errorMessage,
+            description: migration.description,
+          });
+        }
+
         // If backup exists, attempt rollback
         if (backup) {
           try {
@@ -332,7 +484,7 @@ export async function runMigrations(
  * Validate migration functions
  */
 export function validateMigrations(
-  migrations: Record<number, Migration['migrate']>,
+  migrations: Record<number, MigrationDefinition>,
   fromVersion: number,
   toVersion: number
 ): { valid: boolean; errors: string[] } {
@@ -362,7 +514,7 @@ export function validateMigrations(
  * Get next migration version to run
  */
 export function getNextMigrationVersion(
-  migrations: Record<number, Migration['migrate']>,
+  migrations: Record<number, MigrationDefinition>,
   currentVersion: number
 ): number | null {
   const versions = Object.keys(migrations)
@@ -370,14 +522,14 @@ export function getNextMigrationVersion(
     .filter(v => v > currentVersion)
     .sort((a, b) => a - b);
 
-  return versions.length > 0 ? versions[0] : null;
+  return versions[0] ?? null;
 }
 
 /**
  * Check if migrations are needed
  */
 export function needsMigration(
-  migrations: Record<number, Migration['migrate']>,
+  migrations: Record<number, MigrationDefinition>,
   currentVersion: number,
   targetVersion: number
 ): boolean {
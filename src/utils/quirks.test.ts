@@ -1,5 +1,5 @@
-import { describe, it, expect, vi } from 'vitest';
-import { detectQuirks, generateWarnings, applyWorkarounds, validateBrowserCompatibility } from './quirks.js';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { detectQuirks, generateWarnings, applyWorkarounds, validateBrowserCompatibility, supportsDurabilityHint } from './quirks.js';
 import type { BrowserInfo } from '../types/browser.js';
 import { BrowserIncompatibilityError } from '../errors/browser.js';
 
@@ -187,3 +187,18 @@ describe('validateBrowserCompatibility', () => {
   });
 });
 
+describe('supportsDurabilityHint', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should detect the durability property on transactions', () => {
+    vi.stubGlobal('IDBTransaction', { prototype: { durability: 'default' } });
+    expect(supportsDurabilityHint()).toBe(true);
+  });
+
+  it('should report no support without it', () => {
+    vi.stubGlobal('IDBTransaction', { prototype: {} });
+    expect(supportsDurabilityHint()).toBe(false);
+  });
+});
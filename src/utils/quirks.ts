@@ -20,6 +20,8 @@ export interface BrowserQuirks {
   recommendedBatchSize: number;
   /** Recommended transaction timeout */
   recommendedTimeout: number;
+  /** Transactions accept a durability hint */
+  supportsDurability: boolean;
 }
 
 /**
@@ -34,6 +36,7 @@ export function detectQuirks(browserInfo: BrowserInfo, compatMode: Compatibility
     largeTransactionIssues: false,
     recommendedBatchSize: 500,
     recommendedTimeout: 5000,
+    supportsDurability: supportsDurabilityHint(),
   };
 
   // Safari/WebKit quirks
@@ -78,6 +81,13 @@ export function detectQuirks(browserInfo: BrowserInfo, compatMode: Compatibility
   return quirks;
 }
 
+/**
+ * Check whether transactions accept a durability hint
+ */
+export function supportsDurabilityHint(): boolean {
+  return typeof IDBTransaction !== 'undefined' && 'durability' in IDBTransaction.prototype;
+}
+
 /**
  * Check for ephemeral storage mode
  */
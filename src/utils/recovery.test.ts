@@ -9,6 +9,10 @@ import {
   StorageEvictedError,
   BrowserIncompatibilityError,
   MigrationError,
+  UpgradeBlockedError,
+  OpenTimeoutError,
+  TransactionInactiveError,
+  ConflictError,
 } from '../errors/index.js';
 
 describe('Error Recovery Utilities', () => {
@@ -32,6 +36,13 @@ describe('Error Recovery Utilities', () => {
       expect(strategy).toBe('reopen');
     });
 
+    it('should return reopen for hung open requests', () => {
+      const error = new OpenTimeoutError(5000, 3);
+
+      const strategy = determineRecoveryStrategy(error);
+      expect(strategy).toBe('reopen');
+    });
+
     it('should return none for browser errors', () => {
       const error = new BrowserIncompatibilityError('Browser incompatible', {
         browserInfo: undefined,
@@ -50,6 +61,34 @@ describe('Error Recovery Utilities', () => {
       expect(strategy).toBe('none');
     });
 
+    it('should return none for blocked upgrades', () => {
+      const error = new UpgradeBlockedError(1, 2, 10000);
+
+      const strategy = determineRecoveryStrategy(error);
+      expect(strategy).toBe('none');
+    });
+
+    it('should return none for auto-committed transactions', () => {
+      const error = new TransactionInactiveError({ autoCommitted: true });
+
+      const strategy = determineRecoveryStrategy(error);
+      expect(strategy).toBe('none');
+    });
+
+    it('should return none for version conflicts', () => {
+      const error = new ConflictError({
+        storeName: 'users',
+        key: '1',
+        current: { id: '1', _version: 2 },
+        attempted: { id: '1', _version: 1 },
+        expectedVersion: 1,
+        currentVersion: 2,
+      });
+
+      const strategy = determineRecoveryStrategy(error);
+      expect(strategy).toBe('none');
+    });
+
     it('should return retry for unknown errors', () => {
       const error = new Error('Unknown error');
       const strategy = determineRecoveryStrategy(error);
@@ -59,10 +98,6 @@ describe('Error Recovery Utilities', () => {
 
   describe('recoverFromError', () => {
     it('should retry operation on retry strategy', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: 'test-recovery-' + Date.now(),
         version: 1,
@@ -97,10 +132,6 @@ describe('Error Recovery Utilities', () => {
     });
 
     it('should return failure after max retries', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: 'test-recovery-' + Date.now(),
         version: 1,
@@ -130,10 +161,6 @@ describe('Error Recovery Utilities', () => {
     });
 
     it('should return none for none strategy', async () => {
-      if (typeof indexedDB === 'undefined') {
-        return;
-      }
-
       const db = createDB({
         name: 'test-recovery-' + Date.now(),
         version: 1,
@@ -127,6 +127,11 @@ export function determineRecoveryStrategy(error: Error): ErrorRecoveryStrategy {
       return 'reopen';
     }
 
+    // Hung open requests - start over with a fresh request
+    if (code === 'OPEN_TIMEOUT') {
+      return 'reopen';
+    }
+
     // Browser errors - no recovery
     if (code === 'BROWSER_INCOMPATIBLE') {
       return 'none';
@@ -136,6 +141,21 @@ export function determineRecoveryStrategy(error: Error): ErrorRecoveryStrategy {
     if (code === 'MIGRATION_ERROR' || code === 'INVALID_VERSION') {
       return 'none';
     }
+
+    // Blocked upgrades - other tabs must close first
+    if (code === 'UPGRADE_BLOCKED') {
+      return 'none';
+    }
+
+    // Auto-committed transactions - the callback itself has to change
+    if (code === 'TRANSACTION_INACTIVE') {
+      return 'none';
+    }
+
+    // Version conflicts - the caller has to merge and write again
+    if (code === 'CONFLICT') {
+      return 'none';
+    }
   }
 
   // Default: retry
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { validateSchema, checkIndexedDBAvailability } from './schema.js';
+import { validateSchema, checkIndexedDBAvailability, hashSchema } from './schema.js';
 import type { DatabaseSchema } from '../types/schema.js';
 
 describe('validateSchema', () => {
@@ -102,6 +102,42 @@ describe('validateSchema', () => {
 
     expect(() => validateSchema(schema)).toThrow('duplicate index name');
   });
+
+  it('should throw if a versioned store keeps its version in the primary key', () => {
+    const schema: DatabaseSchema = {
+      name: 'test',
+      version: 1,
+      stores: {
+        users: { primaryKey: ['id', 'rev'], versioned: true, versionField: 'rev' },
+      },
+    };
+
+    expect(() => validateSchema(schema)).toThrow('cannot use its primaryKey "rev" as version field');
+  });
+});
+
+describe('hashSchema', () => {
+  it('should ignore declaration order and non-structural options', () => {
+    const a = hashSchema({
+      users: { primaryKey: 'id', indexes: [{ name: 'email', keyPath: 'email' }, { name: 'age', keyPath: 'age' }] },
+      logs: { primaryKey: 'id' },
+    });
+    const b = hashSchema({
+      logs: { primaryKey: 'id', durability: 'relaxed' },
+      users: { primaryKey: 'id', versioned: true, indexes: [{ name: 'age', keyPath: 'age', unique: false }, { name: 'email', keyPath: 'email' }] },
+    });
+
+    expect(a).toMatch(/^[0-9a-f]{8}$/);
+    expect(b).toBe(a);
+  });
+
+  it('should change when a key path or index changes', () => {
+    const base = hashSchema({ users: { primaryKey: 'id' } });
+
+    expect(hashSchema({ users: { primaryKey: 'uuid' } })).not.toBe(base);
+    expect(hashSchema({ users: { primaryKey: 'id', autoIncrement: true } })).not.toBe(base);
+    expect(hashSchema({ users: { primaryKey: 'id', indexes: [{ name: 'email', keyPath: 'email' }] } })).not.toBe(base);
+  });
 });
 
 describe('checkIndexedDBAvailability', () => {
@@ -1,6 +1,8 @@
-import type { DatabaseSchema, StoreDefinition, IndexDefinition } from '../types/schema.js';
+import type { DatabaseSchema, StoreDefinition, IndexDefinition, SchemaChange } from '../types/schema.js';
 import { BrowserIncompatibilityError } from '../errors/browser.js';
 import { detectBrowser } from './browser.js';
+import { getVersionField } from './version.js';
+import { getValueByKeyPath, isValidKey } from './key-range.js';
 
 /**
  * Validate schema definition
@@ -41,6 +43,14 @@ function validateStoreDefinition(storeName: string, storeDef: StoreDefinition):
     throw new Error(`Store "${storeName}" primaryKey must be a string or array`);
   }
 
+  const versionField = getVersionField(storeDef);
+  if (versionField !== null) {
+    const keyPaths: string[] = Array.isArray(storeDef.primaryKey) ? storeDef.primaryKey : [storeDef.primaryKey];
+    if (keyPaths.includes(versionField)) {
+      throw new Error(`Store "${storeName}" cannot use its primaryKey "${versionField}" as version field`);
+    }
+  }
+
   // Validate indexes if present
   if (storeDef.indexes) {
     if (!Array.isArray(storeDef.indexes)) {
@@ -80,6 +90,72 @@ function validateIndexDefinition(
   }
 }
 
+/** KV key of the schema fingerprint kept for `autoVersion` */
+export const SCHEMA_STATE_KEY = '__schema__';
+
+/**
+ * Schema fingerprint and logical version written by the last `autoVersion` upgrade
+ */
+export interface SchemaState {
+  /** Fingerprint of the store definitions (see `hashSchema()`) */
+  hash: string;
+  /** Logical version the schema was upgraded to */
+  version: number;
+}
+
+/**
+ * Fingerprint the structure of store definitions: key paths, autoIncrement and
+ * indexes, regardless of declaration order (FNV-1a over a canonical form)
+ */
+export function hashSchema(stores: Record<string, StoreDefinition>): string {
+  const shape = Object.entries(stores)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([storeName, storeDef]) => [
+      storeName,
+      storeDef.primaryKey,
+      storeDef.autoIncrement ?? false,
+      [...(storeDef.indexes ?? [])]
+        .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+        .map((index) => [index.name, index.keyPath, index.unique ?? false, index.multiEntry ?? false]),
+    ]);
+
+  const text = JSON.stringify(shape);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Read the schema state stored in the KV store of a connection (null when absent)
+ */
+export function readSchemaState(connection: IDBDatabase): Promise<SchemaState | null> {
+  if (!connection.objectStoreNames.contains('__kv__')) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = connection.transaction('__kv__', 'readonly').objectStore('__kv__').get(SCHEMA_STATE_KEY);
+    request.onsuccess = (): void => {
+      const item = request.result as { key: string; value: SchemaState } | undefined;
+      resolve(item?.value ?? null);
+    };
+    request.onerror = (): void => {
+      reject(request.error ?? new Error('Failed to read schema state'));
+    };
+  });
+}
+
+/**
+ * Store the schema state through the upgrade transaction, so it commits together
+ * with the schema changes
+ */
+export function markSchemaState(transaction: IDBTransaction, state: SchemaState): void {
+  transaction.objectStore('__kv__').put({ key: SCHEMA_STATE_KEY, value: state });
+}
+
 /**
  * Check if IndexedDB is available
  */
@@ -97,74 +173,303 @@ export function checkIndexedDBAvailability(): void {
 }
 
 /**
- * Create object stores from schema
+ * Create, drop and alter object stores and indexes to match the schema
  * This should be called within an onupgradeneeded handler
  * 
  * @param db - IDBDatabase instance (from onupgradeneeded event)
  * @param schema - Database schema definition
  * @param oldVersion - Previous database version
  * @param newVersion - New database version
- * @param transaction - The upgrade transaction (optional, for adding indexes to existing stores)
+ * @param transaction - The upgrade transaction (optional, for changing existing stores)
+ * @param allowDestructive - Whether changes that drop or recreate stores and indexes are applied
+ * @param onCopyError - Called when a record cannot be copied into a recreated store; the caller aborts the upgrade
+ * @returns The destructive changes that were skipped
  */
 export function createObjectStores(
   db: IDBDatabase,
   schema: DatabaseSchema,
   _oldVersion: number,
   _newVersion: number,
-  transaction?: IDBTransaction
-): void {
-  const existingStoreNames = new Set<string>();
-  for (let i = 0; i < db.objectStoreNames.length; i++) {
-    const storeName = db.objectStoreNames[i];
-    if (storeName) {
-      existingStoreNames.add(storeName);
+  transaction?: IDBTransaction,
+  allowDestructive = false,
+  onCopyError?: (error: Error) => void
+): SchemaChange[] {
+  const changes = diffSchema(db, schema.stores, transaction ?? null);
+  const skipped = allowDestructive ? [] : changes.filter((change) => change.destructive);
+
+  for (const change of changes) {
+    if (!skipped.includes(change)) {
+      applySchemaChange(db, schema.stores, change, transaction, onCopyError);
     }
   }
+  return skipped;
+}
 
-  // Create or update stores
-  for (const [storeName, storeDef] of Object.entries(schema.stores)) {
+/**
+ * Compare the live stores and indexes of a database with the declared ones
+ * Stores named `__*` are internal and never dropped. Existing stores are only
+ * inspected when a transaction over them is given.
+ *
+ * @param db - IDBDatabase instance, or null when the database does not exist yet
+ * @param stores - Declared store definitions
+ * @param transaction - Transaction including every existing store, e.g. the upgrade transaction
+ */
+export function diffSchema(
+  db: IDBDatabase | null,
+  stores: Record<string, StoreDefinition>,
+  transaction: IDBTransaction | null
+): SchemaChange[] {
+  const existingStoreNames = toNameSet(db?.objectStoreNames);
+  const changes: SchemaChange[] = [];
+
+  for (const storeName of existingStoreNames) {
+    if (!stores[storeName] && !storeName.startsWith('__')) {
+      changes.push({ type: 'deleteStore', store: storeName, destructive: true, description: `Drop store "${storeName}"` });
+    }
+  }
+
+  for (const [storeName, storeDef] of Object.entries(stores)) {
     if (!existingStoreNames.has(storeName)) {
-      // Create new store
-      const primaryKey = storeDef.primaryKey;
-      const objectStore = db.createObjectStore(storeName, {
-        keyPath: primaryKey,
-        autoIncrement: storeDef.autoIncrement ?? false,
+      changes.push({ type: 'createStore', store: storeName, destructive: false, description: `Create store "${storeName}"` });
+      continue;
+    }
+    if (!transaction) {
+      continue;
+    }
+
+    const objectStore = transaction.objectStore(storeName);
+    const keyPath = normalizeKeyPath(objectStore.keyPath);
+    const autoIncrement = storeDef.autoIncrement ?? false;
+    if (!sameKeyPath(keyPath, storeDef.primaryKey) || objectStore.autoIncrement !== autoIncrement) {
+      const reason = objectStore.autoIncrement !== autoIncrement
+        ? `autoIncrement ${String(objectStore.autoIncrement)} -> ${String(autoIncrement)}`
+        : `primaryKey ${JSON.stringify(keyPath)} -> ${JSON.stringify(storeDef.primaryKey)}`;
+      changes.push({ type: 'recreateStore', store: storeName, destructive: true, description: `Recreate store "${storeName}": ${reason}` });
+      continue;
+    }
+
+    changes.push(...diffIndexes(storeName, objectStore, storeDef.indexes ?? []));
+  }
+
+  return changes;
+}
+
+/**
+ * Compare the live indexes of an object store with the declared ones
+ */
+function diffIndexes(storeName: string, objectStore: IDBObjectStore, indexes: IndexDefinition[]): SchemaChange[] {
+  const existingIndexNames = toNameSet(objectStore.indexNames);
+  const changes: SchemaChange[] = [];
+
+  for (const indexName of existingIndexNames) {
+    if (!indexes.some((index) => index.name === indexName)) {
+      changes.push({
+        type: 'deleteIndex',
+        store: storeName,
+        index: indexName,
+        destructive: true,
+        description: `Drop index "${storeName}.${indexName}"`,
       });
+    }
+  }
 
-      // Create indexes
-      if (storeDef.indexes) {
-        for (const index of storeDef.indexes) {
-          objectStore.createIndex(index.name, index.keyPath, {
-            unique: index.unique ?? false,
-            multiEntry: index.multiEntry ?? false,
-          });
-        }
+  for (const index of indexes) {
+    if (!existingIndexNames.has(index.name)) {
+      changes.push({
+        type: 'createIndex',
+        store: storeName,
+        index: index.name,
+        destructive: false,
+        description: `Create index "${storeName}.${index.name}"`,
+      });
+      continue;
+    }
+
+    const existing = objectStore.index(index.name);
+    if (
+      !sameKeyPath(normalizeKeyPath(existing.keyPath), index.keyPath) ||
+      existing.unique !== (index.unique ?? false) ||
+      existing.multiEntry !== (index.multiEntry ?? false)
+    ) {
+      changes.push({
+        type: 'recreateIndex',
+        store: storeName,
+        index: index.name,
+        destructive: true,
+        description: `Recreate index "${storeName}.${index.name}"`,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Apply one schema change within the upgrade
+ * A recreated store is renamed out of the way, and its records are copied into
+ * the new store once read, through `transformOnRecreate` when the store has one.
+ */
+function applySchemaChange(
+  db: IDBDatabase,
+  stores: Record<string, StoreDefinition>,
+  change: SchemaChange,
+  transaction?: IDBTransaction,
+  onCopyError?: (error: Error) => void
+): void {
+  const storeDef = stores[change.store];
+
+  switch (change.type) {
+    case 'createStore':
+      if (storeDef) {
+        createStore(db, change.store, storeDef);
       }
-    } else if (transaction) {
-      // Store exists - update indexes if needed
-      // During onupgradeneeded, we can add indexes to existing stores
-      const objectStore = transaction.objectStore(storeName);
-
-      if (storeDef.indexes) {
-        const existingIndexNames = new Set<string>();
-        
-        for (let i = 0; i < objectStore.indexNames.length; i++) {
-          const indexName = objectStore.indexNames[i];
-          if (indexName) {
-            existingIndexNames.add(indexName);
-          }
-        }
+      break;
+    case 'deleteStore':
+      db.deleteObjectStore(change.store);
+      break;
+    case 'recreateStore': {
+      if (!storeDef || !transaction) {
+        break;
+      }
+      const previous = transaction.objectStore(change.store);
+      const previousName = `__recreate__${change.store}`;
+      previous.name = previousName;
+      createStore(db, change.store, storeDef);
 
-        for (const index of storeDef.indexes) {
-          if (!existingIndexNames.has(index.name)) {
-            objectStore.createIndex(index.name, index.keyPath, {
-              unique: index.unique ?? false,
-              multiEntry: index.multiEntry ?? false,
-            });
+      const keysRequest = previous.getAllKeys();
+      const request = previous.getAll();
+      request.onsuccess = (): void => {
+        const target = transaction.objectStore(change.store);
+        const records: unknown[] = request.result;
+        for (const [i, stored] of records.entries()) {
+          const copied = copyRecord(target, storeDef, stored, (reason) =>
+            onCopyError?.(
+              new Error(`Cannot copy record ${JSON.stringify(keysRequest.result[i])} into recreated store "${change.store}": ${reason}`)
+            )
+          );
+          if (!copied) {
+            // The upgrade is being aborted
+            return;
           }
         }
+        db.deleteObjectStore(previousName);
+      };
+      break;
+    }
+    case 'createIndex':
+    case 'recreateIndex': {
+      const index = storeDef?.indexes?.find((definition) => definition.name === change.index);
+      if (!index || !transaction) {
+        break;
+      }
+      const objectStore = transaction.objectStore(change.store);
+      if (change.type === 'recreateIndex') {
+        objectStore.deleteIndex(index.name);
       }
+      createIndex(objectStore, index);
+      break;
     }
+    case 'deleteIndex':
+      if (transaction && change.index !== undefined) {
+        transaction.objectStore(change.store).deleteIndex(change.index);
+      }
+      break;
   }
 }
 
+/**
+ * Add a record of a store being recreated to its new store, reporting why it could not be added
+ * Returns false when it failed right away; a key collision is reported once the write fails.
+ */
+function copyRecord(
+  target: IDBObjectStore,
+  storeDef: StoreDefinition,
+  stored: unknown,
+  fail: (reason: string) => void
+): boolean {
+  let record: unknown;
+  try {
+    record = storeDef.transformOnRecreate ? storeDef.transformOnRecreate(stored) : stored;
+  } catch (error) {
+    fail(`transformOnRecreate threw: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+  if (record === undefined) {
+    return true;
+  }
+
+  const key = getValueByKeyPath(record, storeDef.primaryKey);
+  if (!isValidKey(key) && !(storeDef.autoIncrement && key === undefined)) {
+    fail(`it has no valid key at ${JSON.stringify(storeDef.primaryKey)}`);
+    return false;
+  }
+  try {
+    const request = target.add(record);
+    request.onerror = (): void => {
+      fail(
+        request.error?.name === 'ConstraintError'
+          ? `another record already has key ${JSON.stringify(key)}`
+          : request.error?.message ?? 'the write failed'
+      );
+    };
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Create an object store with its indexes
+ */
+function createStore(db: IDBDatabase, storeName: string, storeDef: StoreDefinition): void {
+  const objectStore = db.createObjectStore(storeName, {
+    keyPath: storeDef.primaryKey,
+    autoIncrement: storeDef.autoIncrement ?? false,
+  });
+
+  for (const index of storeDef.indexes ?? []) {
+    createIndex(objectStore, index);
+  }
+}
+
+/**
+ * Create an index from its definition
+ */
+function createIndex(objectStore: IDBObjectStore, index: IndexDefinition): void {
+  objectStore.createIndex(index.name, index.keyPath, {
+    unique: index.unique ?? false,
+    multiEntry: index.multiEntry ?? false,
+  });
+}
+
+/**
+ * Collect the names of a DOMStringList
+ */
+function toNameSet(names: DOMStringList | undefined): Set<string> {
+  const set = new Set<string>();
+  for (let i = 0; i < (names?.length ?? 0); i++) {
+    const name = names?.[i];
+    if (name) {
+      set.add(name);
+    }
+  }
+  return set;
+}
+
+/**
+ * Key path as a string or array (older engines report compound paths as a DOMStringList)
+ */
+function normalizeKeyPath(keyPath: string | string[] | DOMStringList | null): string | string[] | null {
+  if (keyPath === null || typeof keyPath === 'string' || Array.isArray(keyPath)) {
+    return keyPath;
+  }
+  return Array.from(keyPath);
+}
+
+/**
+ * Whether a live key path matches a declared one
+ */
+function sameKeyPath(live: string | string[] | null, declared: string | string[]): boolean {
+  return JSON.stringify(live) === JSON.stringify(declared);
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { getVersionField, readVersion, hasVersion, withVersion } from './version.js';
+
+describe('getVersionField', () => {
+  it('should return null for stores that are not versioned', () => {
+    expect(getVersionField(undefined)).toBeNull();
+    expect(getVersionField({ primaryKey: 'id' })).toBeNull();
+  });
+
+  it('should default to _version', () => {
+    expect(getVersionField({ primaryKey: 'id', versioned: true })).toBe('_version');
+    expect(getVersionField({ primaryKey: 'id', versioned: true, versionField: 'rev' })).toBe('rev');
+  });
+});
+
+describe('readVersion', () => {
+  it('should read numeric versions and treat anything else as 0', () => {
+    expect(readVersion({ id: '1', _version: 3 }, '_version')).toBe(3);
+    expect(readVersion({ id: '1', _version: '3' }, '_version')).toBe(0);
+    expect(readVersion(undefined, '_version')).toBe(0);
+    expect(hasVersion({ id: '1', _version: 0 }, '_version')).toBe(true);
+    expect(hasVersion({ id: '1' }, '_version')).toBe(false);
+  });
+});
+
+describe('withVersion', () => {
+  it('should copy the record with the version set', () => {
+    const record = { id: '1', _version: 1 };
+    expect(withVersion(record, '_version', 2)).toEqual({ id: '1', _version: 2 });
+    expect(record._version).toBe(1);
+  });
+});
@@ -0,0 +1,35 @@
+import type { StoreDefinition } from '../types/schema.js';
+
+/**
+ * Revision field used by versioned stores unless `versionField` is set
+ */
+export const DEFAULT_VERSION_FIELD = '_version';
+
+/**
+ * Revision field of a versioned store, or null when the store is not versioned
+ */
+export function getVersionField(definition: StoreDefinition | undefined): string | null {
+  return definition?.versioned ? definition.versionField ?? DEFAULT_VERSION_FIELD : null;
+}
+
+/**
+ * Version a record carries (0 when it has none)
+ */
+export function readVersion(record: unknown, field: string): number {
+  const version = record !== null && typeof record === 'object' ? (record as Record<string, unknown>)[field] : undefined;
+  return typeof version === 'number' ? version : 0;
+}
+
+/**
+ * Whether a record carries a version
+ */
+export function hasVersion(record: unknown, field: string): boolean {
+  return record !== null && typeof record === 'object' && typeof (record as Record<string, unknown>)[field] === 'number';
+}
+
+/**
+ * Copy of a record with its version set
+ */
+export function withVersion<T>(record: T, field: string, version: number): T {
+  return { ...record, [field]: version };
+}
@@ -0,0 +1,60 @@
+import { createDB } from '../src/database/index.js';
+import type { Database } from '../src/database/index.js';
+import type { DatabaseOptions, IndexDefinition, StoreDefinition } from '../src/types/schema.js';
+import type { Table } from '../src/table/table.js';
+
+/**
+ * Record stored by the `users` fixture
+ */
+export interface TestUser {
+  id: string;
+  name: string;
+  email: string;
+  age: number;
+  createdAt: number;
+}
+
+/**
+ * Default `users` fixture: ages 30, 25 and 35, created in key order
+ */
+export const testUsers: TestUser[] = [
+  { id: '1', name: 'John', email: 'john@example.com', age: 30, createdAt: 1000 },
+  { id: '2', name: 'Jane', email: 'jane@example.com', age: 25, createdAt: 2000 },
+  { id: '3', name: 'Bob', email: 'bob@example.com', age: 35, createdAt: 3000 },
+];
+
+let openedCount = 0;
+
+/**
+ * Open a version 1 database under a name no other test uses
+ */
+export async function openTestDB(
+  stores: Record<string, StoreDefinition>,
+  options: Partial<Omit<DatabaseOptions, 'stores'>> = {}
+): Promise<Database> {
+  openedCount++;
+  const db = createDB({
+    name: `test-${Date.now()}-${openedCount}`,
+    version: 1,
+    ...options,
+    stores,
+  });
+  await db.open();
+  return db;
+}
+
+/**
+ * Open a database with a `users` store and add the given records in order
+ */
+export async function openUsers(
+  indexes: IndexDefinition[] = [],
+  records: TestUser[] = testUsers,
+  options: Partial<Omit<DatabaseOptions, 'stores'>> = {}
+): Promise<{ db: Database; users: Table<TestUser, string> }> {
+  const db = await openTestDB({ users: { primaryKey: 'id', indexes } }, options);
+  const users = db.table<TestUser, string>('users');
+  for (const record of records) {
+    await users.add(record);
+  }
+  return { db, users };
+}
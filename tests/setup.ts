@@ -0,0 +1,2 @@
+// jsdom has no IndexedDB; run the IDB-backed tests against an in-memory implementation
+import 'fake-indexeddb/auto';